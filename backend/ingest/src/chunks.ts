@@ -0,0 +1,73 @@
+/**
+ * Split source documents into chunks identified by a content hash.
+ * The hash covers the text, its metadata and the embedding model, so a chunk
+ * is only re-embedded when one of those changes.
+ */
+
+import { createHash } from 'node:crypto';
+import { NelsonEdition } from '@/types';
+import { chunkMarkdown } from '@/utils/chunking';
+import { SourceDocument } from './sources.js';
+
+export interface IngestChunk {
+  source: string;
+  chunkIndex: number;
+  content: string; // Starts with the heading path, e.g. "Asthma > Management"
+  chapter: string;
+  edition?: NelsonEdition;
+  title: string;
+  section: string;
+  headings: string[];
+  page: number;
+  pageEnd: number; // Same as page unless the chunk runs onto the next page
+  contentHash: string;
+}
+
+export const CHUNK_MAX_TOKENS = 250;
+export const CHUNK_OVERLAP_TOKENS = 30;
+
+/**
+ * Chunk a document along its headings. Pages are joined first so sections,
+ * tables and paragraphs that run over a page break stay together.
+ * @param document - Parsed source file
+ * @param model - Embedding model, part of the content hash
+ */
+export function buildChunks(document: SourceDocument, model: string): IngestChunk[] {
+  const { chapter, edition, title, section } = document.metadata;
+  const pageStarts: number[] = [];
+  let text = '';
+
+  document.pages.forEach((page, index) => {
+    if (index > 0) text += '\n';
+    pageStarts.push(text.length);
+    text += page.text;
+  });
+
+  const pageAt = (offset: number): number => {
+    let index = 0;
+    while (index + 1 < pageStarts.length && pageStarts[index + 1] <= offset) index++;
+    return document.pages[index].page;
+  };
+
+  return chunkMarkdown(text, { maxTokens: CHUNK_MAX_TOKENS, overlapTokens: CHUNK_OVERLAP_TOKENS, title })
+    .map(({ content, headings, start, end }, chunkIndex) => {
+      const page = pageAt(start);
+      const pageEnd = pageAt(Math.max(start, end - 1));
+
+      return {
+        source: document.source,
+        chunkIndex,
+        content,
+        chapter,
+        edition,
+        title,
+        section,
+        headings,
+        page,
+        pageEnd,
+        contentHash: createHash('sha256')
+          .update(JSON.stringify({ model, chapter, edition, title, section, page, pageEnd, content }))
+          .digest('hex'),
+      };
+    });
+}
@@ -0,0 +1,132 @@
+/**
+ * Nelson-GPT ingestion CLI
+ *
+ *   npm run ingest -- --target supabase chapters/
+ *   npm run ingest -- --target mongodb --dry-run chapters/185-asthma.md
+ *   npm run ingest -- --target pack chapters/
+ *
+ * Re-running is cheap: chunks whose content hash is already stored are skipped,
+ * and chunks a file no longer produces are deleted.
+ */
+
+import { parseArgs } from 'node:util';
+import { buildChunks } from './chunks.js';
+import { TARGET_NAMES, TargetName, config, validateConfig } from './config.js';
+import { embedBatch } from './embed.js';
+import { findSourceFiles, readSourceDocument } from './sources.js';
+import { EmbeddedChunk, IngestTarget, createTarget } from './targets.js';
+
+const DEFAULT_BATCH_SIZE = 16;
+const DELETE_BATCH_SIZE = 100;
+
+const USAGE = `Usage: npm run ingest -- --target <${TARGET_NAMES.join('|')}> [--batch-size ${DEFAULT_BATCH_SIZE}] [--dry-run] <files or directories...>`;
+
+interface FileSummary {
+  chunks: number;
+  embedded: number;
+  unchanged: number;
+  removed: number;
+}
+
+function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
+
+async function ingestFile(
+  filePath: string,
+  target: IngestTarget | null,
+  batchSize: number
+): Promise<FileSummary> {
+  const document = await readSourceDocument(filePath);
+  const chunks = buildChunks(document, config.huggingFace.model);
+  const current = new Set(chunks.map(chunk => chunk.contentHash));
+
+  if (!target) {
+    return { chunks: chunks.length, embedded: 0, unchanged: 0, removed: 0 };
+  }
+
+  const existing = await target.existingHashes(document.source);
+  const changed = chunks.filter(chunk => !existing.has(chunk.contentHash));
+
+  for (const batch of batches(changed, batchSize)) {
+    const embeddings = await embedBatch(batch.map(chunk => chunk.content));
+    await target.upsert(batch.map((chunk, i): EmbeddedChunk => ({ ...chunk, embedding: embeddings[i] })));
+  }
+
+  const stale = [...existing].filter(hash => !current.has(hash));
+  for (const batch of batches(stale, DELETE_BATCH_SIZE)) {
+    await target.remove(document.source, batch);
+  }
+
+  return {
+    chunks: chunks.length,
+    embedded: changed.length,
+    unchanged: chunks.length - changed.length,
+    removed: stale.length,
+  };
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      target: { type: 'string' },
+      'batch-size': { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const targetName = values.target as TargetName | undefined;
+  const batchSize = values['batch-size'] ? parseInt(values['batch-size'], 10) : DEFAULT_BATCH_SIZE;
+  const dryRun = values['dry-run'] ?? false;
+
+  if (!targetName || !TARGET_NAMES.includes(targetName) || positionals.length === 0 || !(batchSize > 0)) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  const issues = validateConfig(targetName, dryRun);
+  if (issues.length > 0) {
+    issues.forEach(issue => console.error(`✗ ${issue}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const files = await findSourceFiles(positionals);
+  const target = dryRun ? null : createTarget(targetName);
+  const totals: FileSummary = { chunks: 0, embedded: 0, unchanged: 0, removed: 0 };
+  let failed = 0;
+
+  for (const file of files) {
+    try {
+      const summary = await ingestFile(file, target, batchSize);
+      console.log(dryRun
+        ? `${file}: ${summary.chunks} chunks`
+        : `${file}: ${summary.chunks} chunks, ${summary.embedded} embedded, ${summary.unchanged} unchanged, ${summary.removed} removed`);
+      for (const key of Object.keys(totals) as Array<keyof FileSummary>) totals[key] += summary[key];
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  await target?.finish?.();
+
+  console.log(`\n${files.length - failed}/${files.length} files, ${totals.chunks} chunks` +
+    (dryRun ? ' (dry run, nothing written)' : `: ${totals.embedded} embedded, ${totals.unchanged} unchanged, ${totals.removed} removed`));
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
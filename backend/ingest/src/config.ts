@@ -0,0 +1,59 @@
+/**
+ * Ingestion configuration, read once from the environment.
+ */
+
+function env(name: string, fallback = ''): string {
+  return process.env[name]?.trim() || fallback;
+}
+
+export const config = {
+  huggingFace: {
+    apiKey: env('HF_API_KEY'),
+    model: env('HF_EMBEDDING_MODEL', 'sentence-transformers/all-MiniLM-L6-v2'),
+  },
+
+  supabase: {
+    url: env('SUPABASE_URL').replace(/\/+$/, ''),
+    serviceRoleKey: env('SUPABASE_SERVICE_ROLE_KEY'),
+    table: env('SUPABASE_TABLE', 'documents'),
+  },
+
+  mongodb: {
+    dataApiUrl: env('MONGODB_DATA_API_URL').replace(/\/+$/, ''),
+    apiKey: env('MONGODB_API_KEY'),
+    cluster: env('MONGODB_CLUSTER', 'peadknowledgebase'),
+    database: env('MONGODB_DATABASE', 'supabase_migration'),
+    collection: env('MONGODB_COLLECTION', 'medical_embeddings'),
+  },
+
+  pack: {
+    // Served by the app at /offline-packs (VITE_OFFLINE_PACK_URL)
+    dir: env('PACK_DIR', '../../public/offline-packs'),
+  },
+};
+
+export const TARGET_NAMES = ['supabase', 'mongodb', 'pack'] as const;
+
+export type TargetName = typeof TARGET_NAMES[number];
+
+/**
+ * List missing settings for an ingestion run
+ * @param target - Where chunks will be written
+ * @param dryRun - Dry runs only read files, so no keys are needed
+ */
+export function validateConfig(target: TargetName, dryRun: boolean): string[] {
+  if (dryRun) return [];
+
+  const issues: string[] = [];
+  if (!config.huggingFace.apiKey) issues.push('HF_API_KEY is not configured');
+
+  if (target === 'supabase') {
+    if (!config.supabase.url) issues.push('SUPABASE_URL is not configured');
+    if (!config.supabase.serviceRoleKey) issues.push('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  } else if (target === 'mongodb') {
+    if (!config.mongodb.dataApiUrl) issues.push('MONGODB_DATA_API_URL is not configured');
+    if (!config.mongodb.apiKey) issues.push('MONGODB_API_KEY is not configured');
+  }
+
+  return issues;
+}
@@ -0,0 +1,34 @@
+/**
+ * Batch embeddings from the Hugging Face feature-extraction pipeline, retried with backoff
+ */
+
+import { config } from './config.js';
+import { assertOk, withRetry } from './retry.js';
+
+/**
+ * Embed a batch of texts, in order
+ * @param texts - Chunk texts
+ */
+export async function embedBatch(texts: string[]): Promise<number[][]> {
+  const { apiKey, model } = config.huggingFace;
+
+  return withRetry(`Embedding ${texts.length} chunks`, async () => {
+    const response = await fetch(`https://api-inference.huggingface.co/pipeline/feature-extraction/${model}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ inputs: texts, options: { wait_for_model: true } }),
+    });
+
+    await assertOk(response, 'Hugging Face API error');
+
+    const embeddings = await response.json() as unknown;
+    if (!Array.isArray(embeddings) || embeddings.length !== texts.length || !embeddings.every(Array.isArray)) {
+      throw new Error('Unexpected batch embedding response format');
+    }
+
+    return embeddings as number[][];
+  });
+}
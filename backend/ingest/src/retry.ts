@@ -0,0 +1,46 @@
+/**
+ * Exponential backoff for calls to the embedding API and the databases
+ */
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+
+export class RetryableError extends Error {}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a request, retrying rate limits, server errors and network failures
+ * with exponential backoff
+ * @param label - Used in log messages
+ * @param request - Throws `RetryableError` for failures worth retrying
+ */
+export async function withRetry<T>(label: string, request: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const retryable = error instanceof RetryableError || error instanceof TypeError; // fetch network errors are TypeErrors
+      if (!retryable || attempt >= MAX_ATTEMPTS) throw error;
+
+      const delay = BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+      console.warn(`${label} failed (${(error as Error).message}), retrying in ${Math.round(delay / 1000)}s`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Throw for a failed response; rate limits and server errors (503 while a model loads) are retryable
+ * @param response - Response to check
+ * @param label - Prefix for the error message
+ */
+export async function assertOk(response: Response, label: string): Promise<void> {
+  if (response.ok) return;
+
+  const detail = await response.text().catch(() => '');
+  const message = `${label}: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 200)}` : ''}`;
+  throw response.status === 429 || response.status >= 500 ? new RetryableError(message) : new Error(message);
+}
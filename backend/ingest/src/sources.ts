@@ -0,0 +1,122 @@
+/**
+ * Chapter source files: Markdown or plain text (including text extracted from
+ * PDFs) with a front-matter block describing where it sits in the textbook.
+ *
+ *   ---
+ *   chapter: 185
+ *   edition: 22
+ *   title: Asthma
+ *   section: Respiratory Disorders
+ *   page: 1186
+ *   ---
+ *
+ * Form feeds (as written by `pdftotext`) start a new page, counting up from `page`.
+ * `edition` is optional but needed when several editions are indexed, since
+ * chapter numbers differ between them.
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { NelsonEdition } from '@/types';
+import { NELSON_EDITIONS, parseEdition } from '@/utils/editions';
+
+export interface SourceMetadata {
+  chapter: string; // e.g. "Chapter 185"
+  edition?: NelsonEdition;
+  title: string;
+  section: string;
+  page: number; // First page of the file
+}
+
+export interface SourcePage {
+  page: number;
+  text: string;
+}
+
+export interface SourceDocument {
+  source: string; // Path relative to the working directory, used to find a file's previous chunks
+  metadata: SourceMetadata;
+  pages: SourcePage[];
+}
+
+const SOURCE_EXTENSIONS = new Set(['.md', '.markdown', '.txt']);
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+function parseFrontMatter(text: string): { fields: Record<string, string>; body: string } {
+  const match = text.match(FRONT_MATTER_PATTERN);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim().replace(/^(['"])(.*)\1$/, '$2');
+    if (key) fields[key] = value;
+  }
+
+  return { fields, body: text.slice(match[0].length) };
+}
+
+/**
+ * Read one source file
+ * @param filePath - Markdown or text file with front matter
+ */
+export async function readSourceDocument(filePath: string): Promise<SourceDocument> {
+  const { fields, body } = parseFrontMatter(await readFile(filePath, 'utf8'));
+
+  if (!fields.chapter) {
+    throw new Error('front matter must include "chapter"');
+  }
+
+  const edition = parseEdition(fields.edition);
+  if (fields.edition && !edition) {
+    throw new Error(`"edition" must be one of ${NELSON_EDITIONS.map(entry => entry.id).join(', ')}`);
+  }
+
+  const startPage = fields.page ? parseInt(fields.page, 10) : 1;
+  if (!Number.isInteger(startPage) || startPage < 1) {
+    throw new Error('"page" must be a positive whole number');
+  }
+
+  const pages = body
+    .split('\f')
+    .map((text, index) => ({ page: startPage + index, text: text.trim() }))
+    .filter(page => page.text.length > 0);
+
+  return {
+    source: path.relative(process.cwd(), filePath).split(path.sep).join('/'),
+    metadata: {
+      chapter: /^\d+$/.test(fields.chapter) ? `Chapter ${fields.chapter}` : fields.chapter,
+      edition,
+      title: fields.title || path.basename(filePath, path.extname(filePath)),
+      section: fields.section || '',
+      page: startPage,
+    },
+    pages,
+  };
+}
+
+/**
+ * Expand the given files and directories into source file paths, sorted
+ * @param inputs - Paths from the command line
+ */
+export async function findSourceFiles(inputs: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const input of inputs) {
+    const info = await stat(input);
+    if (info.isDirectory()) {
+      const entries = await readdir(input, { recursive: true });
+      for (const entry of entries) {
+        if (SOURCE_EXTENSIONS.has(path.extname(entry).toLowerCase())) {
+          files.push(path.join(input, entry));
+        }
+      }
+    } else {
+      files.push(input);
+    }
+  }
+
+  return [...new Set(files)].sort();
+}
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildVectorSearchFilter } from '@/utils/vectorSearchFilter';
+import { EmbeddedChunk, toMongoDocument } from './targets.js';
+
+const chunk: EmbeddedChunk = {
+  source: '185-asthma.md',
+  chunkIndex: 0,
+  content: 'Asthma > Management\n\nInhaled corticosteroids are the preferred controller.',
+  chapter: '185',
+  edition: 22,
+  title: 'Asthma',
+  section: 'Respiratory Disorders',
+  headings: ['Asthma', 'Management'],
+  page: 1186,
+  pageEnd: 1186,
+  contentHash: 'abc123',
+  embedding: [0.1, 0.2, 0.3],
+};
+
+/**
+ * Evaluate the subset of MongoDB query operators the search filter uses
+ */
+function matches(document: Record<string, unknown>, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = document[field];
+    if (condition && typeof condition === 'object') {
+      const { $gte, $in } = condition as { $gte?: number; $in?: unknown[] };
+      if ($gte !== undefined && !(typeof value === 'number' && value >= $gte)) return false;
+      if ($in !== undefined && !(Array.isArray(value) ? value.some(item => $in.includes(item)) : $in.includes(value))) return false;
+      return true;
+    }
+    return value === condition;
+  });
+}
+
+describe('toMongoDocument', () => {
+  it('passes the filter retrieval applies in clinical mode with patient context', () => {
+    for (const ageGroup of ['neonate', 'infant', 'child', 'adolescent']) {
+      const filter = buildVectorSearchFilter({
+        medicalSpecialty: 'pediatrics',
+        minConfidenceScore: 0.7,
+        ageGroups: [ageGroup],
+        edition: 22,
+      });
+
+      assert.ok(matches(toMongoDocument(chunk), filter), `filtered out for ${ageGroup}`);
+    }
+  });
+
+  it('is excluded by an edition filter for another edition', () => {
+    assert.equal(matches(toMongoDocument(chunk), buildVectorSearchFilter({ edition: 21 })), false);
+  });
+});
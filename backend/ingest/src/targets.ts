@@ -0,0 +1,270 @@
+/**
+ * Where embedded chunks are written: Supabase `documents` (PostgREST),
+ * MongoDB `medical_embeddings` (Atlas Data API) or offline pack files
+ */
+
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  OFFLINE_PACK_FORMAT,
+  OFFLINE_PACK_VERSION,
+  OfflinePackFile,
+  OfflinePackManifest,
+  quantizeEmbedding,
+} from '@/utils/offlinePackFormat';
+import { AGE_GROUPS } from '@/utils/patientContext';
+import { IngestChunk } from './chunks.js';
+import { TargetName, config } from './config.js';
+import { assertOk, withRetry } from './retry.js';
+
+export interface EmbeddedChunk extends IngestChunk {
+  embedding: number[];
+}
+
+export interface IngestTarget {
+  name: TargetName;
+  /** Content hashes already stored for a source file */
+  existingHashes: (source: string) => Promise<Set<string>>;
+  /** Write chunks; a chunk whose hash is already stored is replaced */
+  upsert: (chunks: EmbeddedChunk[]) => Promise<void>;
+  /** Delete a source file's chunks by content hash */
+  remove: (source: string, hashes: string[]) => Promise<void>;
+  /** Called once after every file has been ingested */
+  finish?: () => Promise<void>;
+}
+
+function createSupabaseTarget(): IngestTarget {
+  const { url, serviceRoleKey, table } = config.supabase;
+  const endpoint = `${url}/rest/v1/${table}`;
+  const headers = {
+    'apikey': serviceRoleKey,
+    'Authorization': `Bearer ${serviceRoleKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  const request = (label: string, query: string, init: RequestInit = {}) =>
+    withRetry(label, async () => {
+      const response = await fetch(`${endpoint}?${query}`, { ...init, headers: { ...headers, ...init.headers } });
+      await assertOk(response, `Supabase ${label}`);
+      return response;
+    });
+
+  const sourceFilter = (source: string) => `metadata->>source=eq.${encodeURIComponent(source)}`;
+
+  return {
+    name: 'supabase',
+
+    existingHashes: async (source) => {
+      const response = await request('read', `select=content_hash&${sourceFilter(source)}`);
+      const rows = await response.json() as Array<{ content_hash: string | null }>;
+      return new Set(rows.map(row => row.content_hash).filter((hash): hash is string => Boolean(hash)));
+    },
+
+    upsert: async (chunks) => {
+      await request('upsert', 'on_conflict=content_hash', {
+        method: 'POST',
+        headers: { 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+        body: JSON.stringify(chunks.map(chunk => ({
+          content: chunk.content,
+          embedding: chunk.embedding,
+          content_hash: chunk.contentHash,
+          metadata: {
+            chapter: chunk.chapter,
+            edition: chunk.edition,
+            title: chunk.title,
+            section: chunk.section,
+            page: chunk.page,
+            page_range: chunk.pageEnd > chunk.page ? `${chunk.page}-${chunk.pageEnd}` : String(chunk.page),
+            headings: chunk.headings,
+            source: chunk.source,
+            chunk_index: chunk.chunkIndex,
+          },
+        }))),
+      });
+    },
+
+    remove: async (source, hashes) => {
+      await request('delete', `content_hash=in.(${hashes.join(',')})&${sourceFilter(source)}`, { method: 'DELETE' });
+    },
+  };
+}
+
+/**
+ * `medical_embeddings` document for a chunk. Textbook chapters are fully trusted and
+ * cover every age group, so retrieval's confidence and age filters always let them through.
+ * @param chunk - Embedded chunk
+ */
+export function toMongoDocument(chunk: EmbeddedChunk): Record<string, unknown> {
+  return {
+    content: chunk.content,
+    embedding_vector: chunk.embedding,
+    content_hash: chunk.contentHash,
+    chapter: chunk.chapter,
+    edition: chunk.edition,
+    page_number: chunk.page,
+    section: chunk.section,
+    source: chunk.source,
+    chunk_index: chunk.chunkIndex,
+    medical_specialty: 'pediatrics',
+    confidence_score: 1,
+    age_groups: [...AGE_GROUPS],
+    metadata: { title: chunk.title, source: chunk.source, headings: chunk.headings, page_end: chunk.pageEnd },
+  };
+}
+
+function createMongoTarget(): IngestTarget {
+  const { dataApiUrl, apiKey, cluster, database, collection } = config.mongodb;
+
+  const action = <T>(name: string, body: Record<string, unknown>) =>
+    withRetry(`MongoDB ${name}`, async () => {
+      const response = await fetch(`${dataApiUrl}/action/${name}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'api-key': apiKey },
+        body: JSON.stringify({ dataSource: cluster, database, collection, ...body }),
+      });
+      await assertOk(response, `MongoDB ${name}`);
+      return response.json() as Promise<T>;
+    });
+
+  return {
+    name: 'mongodb',
+
+    existingHashes: async (source) => {
+      const { documents } = await action<{ documents: Array<{ content_hash?: string }> }>('find', {
+        filter: { source },
+        projection: { content_hash: 1 },
+        limit: 50000,
+      });
+      return new Set(documents.map(doc => doc.content_hash).filter((hash): hash is string => Boolean(hash)));
+    },
+
+    upsert: async (chunks) => {
+      // Data API has no bulk upsert: clear any copies of these hashes, then insert
+      await action('deleteMany', { filter: { content_hash: { $in: chunks.map(chunk => chunk.contentHash) } } });
+      await action('insertMany', { documents: chunks.map(toMongoDocument) });
+    },
+
+    remove: async (source, hashes) => {
+      await action('deleteMany', { filter: { source, content_hash: { $in: hashes } } });
+    },
+  };
+}
+
+const MANIFEST_FILE = 'index.json';
+
+/**
+ * One JSON file per source with int8-quantized embeddings, plus a manifest
+ * (`index.json`) the app reads to offer chapters for offline use
+ */
+function createPackTarget(): IngestTarget {
+  const { dir } = config.pack;
+  const { model } = config.huggingFace;
+
+  const packId = (source: string) =>
+    source.replace(/\.[^./]+$/, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase();
+  const packPath = (source: string) => path.join(dir, `${packId(source)}.json`);
+
+  const read = async (source: string): Promise<OfflinePackFile | null> => {
+    try {
+      return JSON.parse(await readFile(packPath(source), 'utf8')) as OfflinePackFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const write = async (pack: OfflinePackFile) => {
+    await mkdir(dir, { recursive: true });
+    if (pack.chunks.length === 0) {
+      await unlink(packPath(pack.source)).catch(() => undefined);
+    } else {
+      await writeFile(packPath(pack.source), JSON.stringify(pack));
+    }
+  };
+
+  return {
+    name: 'pack',
+
+    existingHashes: async (source) => {
+      const pack = await read(source);
+      return new Set(pack && pack.model === model ? pack.chunks.map(chunk => chunk.contentHash) : []);
+    },
+
+    upsert: async (chunks) => {
+      const [first] = chunks;
+      const existing = await read(first.source);
+      const byHash = new Map((existing?.model === model ? existing.chunks : []).map(chunk => [chunk.contentHash, chunk]));
+
+      for (const chunk of chunks) {
+        byHash.set(chunk.contentHash, {
+          contentHash: chunk.contentHash,
+          content: chunk.content,
+          section: chunk.headings.slice(1).join(' > ') || chunk.section,
+          pageRange: chunk.pageEnd > chunk.page ? `${chunk.page}-${chunk.pageEnd}` : String(chunk.page),
+          ...quantizeEmbedding(chunk.embedding),
+        });
+      }
+
+      await write({
+        format: OFFLINE_PACK_FORMAT,
+        version: OFFLINE_PACK_VERSION,
+        model,
+        dimensions: first.embedding.length,
+        id: packId(first.source),
+        source: first.source,
+        chapter: first.chapter,
+        edition: first.edition,
+        title: first.title,
+        chunks: [...byHash.values()],
+      });
+    },
+
+    remove: async (source, hashes) => {
+      const pack = await read(source);
+      if (!pack) return;
+      const removed = new Set(hashes);
+      await write({ ...pack, chunks: pack.chunks.filter(chunk => !removed.has(chunk.contentHash)) });
+    },
+
+    finish: async () => {
+      await mkdir(dir, { recursive: true });
+      const files = (await readdir(dir)).filter(file => file.endsWith('.json') && file !== MANIFEST_FILE).sort();
+      const manifest: OfflinePackManifest = {
+        format: OFFLINE_PACK_FORMAT,
+        version: OFFLINE_PACK_VERSION,
+        model,
+        dimensions: 0,
+        packs: [],
+      };
+
+      for (const file of files) {
+        const filePath = path.join(dir, file);
+        const pack = JSON.parse(await readFile(filePath, 'utf8')) as OfflinePackFile;
+        if (pack.format !== OFFLINE_PACK_FORMAT || pack.model !== model) continue;
+
+        manifest.dimensions = pack.dimensions;
+        manifest.packs.push({
+          id: pack.id,
+          chapter: pack.chapter,
+          edition: pack.edition,
+          title: pack.title,
+          chunkCount: pack.chunks.length,
+          bytes: (await stat(filePath)).size,
+        });
+      }
+
+      await writeFile(path.join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    },
+  };
+}
+
+export function createTarget(name: TargetName): IngestTarget {
+  switch (name) {
+    case 'supabase':
+      return createSupabaseTarget();
+    case 'mongodb':
+      return createMongoTarget();
+    case 'pack':
+      return createPackTarget();
+  }
+}
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { verifySupabaseJwt } from './auth.js';
+
+const secret = 'test-jwt-secret';
+const now = Date.UTC(2025, 0, 1);
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function sign(claims: Record<string, unknown>, key = secret, alg = 'HS256'): string {
+  const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', key).update(unsigned).digest('base64url')}`;
+}
+
+const session = { sub: 'user-1', role: 'authenticated', exp: now / 1000 + 3600 };
+
+describe('verifySupabaseJwt', () => {
+  it('accepts a signed-in user token', () => {
+    assert.equal(verifySupabaseJwt(sign(session), secret, now)?.sub, 'user-1');
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    assert.equal(verifySupabaseJwt(sign(session, 'other-secret'), secret, now), null);
+  });
+
+  it('rejects tampered claims', () => {
+    const [header, , signature] = sign(session).split('.');
+    const forged = `${header}.${encode({ ...session, sub: 'user-2' })}.${signature}`;
+    assert.equal(verifySupabaseJwt(forged, secret, now), null);
+  });
+
+  it('rejects expired tokens', () => {
+    assert.equal(verifySupabaseJwt(sign({ ...session, exp: now / 1000 - 1 }), secret, now), null);
+  });
+
+  it('rejects the anon key, which has no user', () => {
+    assert.equal(verifySupabaseJwt(sign({ role: 'anon', exp: now / 1000 + 3600 }), secret, now), null);
+  });
+
+  it('rejects other algorithms and malformed tokens', () => {
+    assert.equal(verifySupabaseJwt(sign(session, secret, 'none'), secret, now), null);
+    assert.equal(verifySupabaseJwt('not-a-jwt', secret, now), null);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Caller authentication for the proxy
+ * The PWA sends the signed-in user's Supabase access token; it is verified with
+ * the project's JWT secret so no round trip to Supabase is needed.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { config } from './config.js';
+import { HttpError } from './http.js';
+
+export interface SupabaseClaims {
+  sub: string;
+  role: string;
+  exp: number;
+}
+
+const decodeSegment = (segment: string): unknown => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * Verify an HS256 Supabase access token
+ * @param token - JWT from the Authorization header
+ * @param secret - The project's JWT secret
+ * @param now - Current time in ms, for tests
+ * @returns The claims of a signed-in user, or null when the token is invalid, expired or not a user session
+ */
+export function verifySupabaseJwt(token: string, secret: string, now = Date.now()): SupabaseClaims | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const { alg } = decodeSegment(header) as { alg?: string };
+    if (alg !== 'HS256') return null;
+
+    const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const claims = decodeSegment(payload) as Partial<SupabaseClaims>;
+    // The anon key is signed with the same secret, so insist on a user session
+    if (typeof claims.sub !== 'string' || claims.role !== 'authenticated') return null;
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+
+    return claims as SupabaseClaims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Address of the caller, honouring X-Forwarded-For only behind a trusted reverse proxy
+ */
+export function clientAddress(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (config.trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Authenticate an API request
+ * @returns Key identifying the caller for rate limiting
+ * @throws HttpError 401 without a valid token, 503 when authentication isn't configured
+ */
+export function authenticate(req: IncomingMessage): string {
+  const { supabaseJwtSecret, allowAnonymous } = config.auth;
+
+  if (!supabaseJwtSecret) {
+    if (allowAnonymous) return `ip:${clientAddress(req)}`;
+    throw new HttpError(503, 'Proxy authentication is not configured');
+  }
+
+  const token = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const claims = token ? verifySupabaseJwt(token, supabaseJwtSecret) : null;
+  if (!claims) {
+    throw new HttpError(401, 'Sign in to use Nelson-GPT');
+  }
+
+  return `user:${claims.sub}`;
+}
@@ -0,0 +1,67 @@
+/**
+ * Proxy configuration, read once from the environment.
+ * Secrets live here and are never sent to the browser.
+ */
+
+function env(name: string, fallback = ''): string {
+  return process.env[name]?.trim() || fallback;
+}
+
+export const config = {
+  port: parseInt(env('PORT', '8787'), 10),
+  allowedOrigins: env('ALLOWED_ORIGINS', 'http://localhost:3000')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean),
+  maxBodyBytes: 256 * 1024,
+  // Requests per caller per minute across the /api routes; 0 disables the limit
+  rateLimitPerMinute: parseInt(env('RATE_LIMIT_PER_MINUTE', '30'), 10),
+  // Read the caller address from X-Forwarded-For (only behind a reverse proxy you control)
+  trustProxy: env('TRUST_PROXY') === 'true',
+
+  auth: {
+    // Supabase project JWT secret, used to verify signed-in users' access tokens
+    supabaseJwtSecret: env('SUPABASE_JWT_SECRET'),
+    // Local development only: serve callers without a token, rate-limited by address
+    allowAnonymous: env('ALLOW_ANONYMOUS') === 'true',
+  },
+
+  llm: {
+    baseUrl: env('LLM_BASE_URL', 'https://api.mistral.ai/v1').replace(/\/+$/, ''),
+    apiKey: env('LLM_API_KEY', env('MISTRAL_API_KEY')),
+    model: env('LLM_MODEL', 'mistral-large-latest'),
+  },
+
+  huggingFace: {
+    apiKey: env('HF_API_KEY'),
+    model: env('HF_EMBEDDING_MODEL', 'sentence-transformers/all-MiniLM-L6-v2'),
+    rerankerModel: env('HF_RERANKER_MODEL', 'cross-encoder/ms-marco-MiniLM-L-6-v2'),
+  },
+
+  mongodb: {
+    dataApiUrl: env('MONGODB_DATA_API_URL').replace(/\/+$/, ''),
+    apiKey: env('MONGODB_API_KEY'),
+    cluster: env('MONGODB_CLUSTER', 'peadknowledgebase'),
+    database: env('MONGODB_DATABASE', 'supabase_migration'),
+  },
+};
+
+/**
+ * List configuration problems so the server can warn at startup
+ */
+export function validateConfig(): string[] {
+  const issues: string[] = [];
+
+  if (!config.auth.supabaseJwtSecret) {
+    issues.push(config.auth.allowAnonymous
+      ? 'SUPABASE_JWT_SECRET is not configured; ALLOW_ANONYMOUS lets anyone use the API keys'
+      : 'SUPABASE_JWT_SECRET is not configured; API requests will be refused');
+  }
+
+  if (!config.llm.apiKey) issues.push('LLM_API_KEY is not configured (fine for keyless self-hosted servers)');
+  if (!config.huggingFace.apiKey) issues.push('HF_API_KEY is not configured');
+  if (!config.mongodb.dataApiUrl) issues.push('MONGODB_DATA_API_URL is not configured');
+  if (!config.mongodb.apiKey) issues.push('MONGODB_API_KEY is not configured');
+
+  return issues;
+}
@@ -0,0 +1,384 @@
+/**
+ * Route handlers. Each one validates the browser's request, attaches the
+ * server-side credentials and forwards it to the vendor API.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config.js';
+import { HttpError, abortOnClose, readJson, sendJson } from './http.js';
+
+const EMBEDDING_DIMENSIONS = 384;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_EMBED_INPUTS = 64;
+const MAX_TEXT_LENGTH = 8000;
+const VECTOR_COLLECTIONS: Record<string, { index: string; path: string }> = {
+  medical_embeddings: { index: 'vector_index_medical', path: 'embedding_vector' },
+  godzilla_medical_dataset: { index: 'vector_index_godzilla', path: 'text_embedding' },
+};
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : fallback;
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.length > 200) {
+    throw new HttpError(400, `${field} must be a short string`);
+  }
+  return value;
+}
+
+// Search questions, including condensed follow-ups, get the same length limit as rerank
+// and embed inputs; optionalString is for short filter values
+function requiredText(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim() || value.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(400, `${field} must be a non-empty string of up to ${MAX_TEXT_LENGTH} characters`);
+  }
+  return value;
+}
+
+function optionalAgeGroups(value: unknown): string[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  return value.map((group, i) => optionalString(group, `ageGroups[${i}]`)).filter((group): group is string => Boolean(group));
+}
+
+function optionalEdition(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 99) {
+    throw new HttpError(400, 'edition must be an edition number');
+  }
+  return value;
+}
+
+/**
+ * Pipe an upstream fetch response to the client unchanged (used for SSE)
+ */
+async function pipeResponse(upstream: Response, res: ServerResponse): Promise<void> {
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('content-type') || 'application/json',
+    'Cache-Control': 'no-cache',
+  });
+
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+
+  for await (const chunk of upstream.body as unknown as AsyncIterable<Uint8Array>) {
+    res.write(chunk);
+  }
+  res.end();
+}
+
+async function mongoAggregate(
+  collection: string,
+  pipeline: unknown[],
+  signal: AbortSignal
+): Promise<unknown[]> {
+  const { dataApiUrl, apiKey, cluster, database } = config.mongodb;
+  if (!dataApiUrl || !apiKey) {
+    throw new HttpError(503, 'MongoDB is not configured on the proxy');
+  }
+
+  const response = await fetch(`${dataApiUrl}/action/aggregate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'api-key': apiKey },
+    body: JSON.stringify({ collection, database, dataSource: cluster, pipeline }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new HttpError(502, `MongoDB request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json() as { documents?: unknown[] };
+  return data.documents || [];
+}
+
+/**
+ * POST /api/chat/stream — OpenAI-compatible chat completion (streaming or not)
+ */
+export async function handleChat(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = await readJson<{
+    messages?: Array<{ role?: unknown; content?: unknown }>;
+    stream?: boolean;
+    max_tokens?: number;
+    temperature?: number;
+    top_p?: number;
+  }>(req);
+
+  const messages = body.messages;
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > 100) {
+    throw new HttpError(400, 'messages must be a non-empty array');
+  }
+  for (const message of messages) {
+    if (!['system', 'user', 'assistant'].includes(message.role as string) || typeof message.content !== 'string') {
+      throw new HttpError(400, 'Each message needs a role (system, user, assistant) and string content');
+    }
+  }
+
+  const signal = abortOnClose(req, res);
+  const upstream = await fetch(`${config.llm.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.llm.apiKey && { 'Authorization': `Bearer ${config.llm.apiKey}` }),
+    },
+    body: JSON.stringify({
+      // The model is chosen by the server, not the browser
+      model: config.llm.model,
+      messages: messages.map(({ role, content }) => ({ role, content })),
+      stream: body.stream === true,
+      max_tokens: clamp(body.max_tokens, 1, 4000, 2000),
+      temperature: clamp(body.temperature, 0, 1, 0.3),
+      top_p: clamp(body.top_p, 0, 1, 0.9),
+    }),
+    signal,
+  });
+
+  await pipeResponse(upstream, res);
+}
+
+/**
+ * POST /api/embed — Hugging Face feature extraction
+ */
+export async function handleEmbed(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { inputs } = await readJson<{ inputs?: unknown }>(req);
+  const texts = Array.isArray(inputs) ? inputs : [inputs];
+
+  if (
+    texts.length === 0 ||
+    texts.length > MAX_EMBED_INPUTS ||
+    texts.some(text => typeof text !== 'string' || !text.trim() || text.length > MAX_TEXT_LENGTH)
+  ) {
+    throw new HttpError(400, `inputs must be a non-empty string or an array of up to ${MAX_EMBED_INPUTS} strings`);
+  }
+
+  if (!config.huggingFace.apiKey) {
+    throw new HttpError(503, 'Hugging Face is not configured on the proxy');
+  }
+
+  const upstream = await fetch(
+    `https://api-inference.huggingface.co/pipeline/feature-extraction/${config.huggingFace.model}`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.huggingFace.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ inputs, options: { wait_for_model: true } }),
+      signal: abortOnClose(req, res),
+    }
+  );
+
+  await pipeResponse(upstream, res);
+}
+
+/**
+ * POST /api/rerank — Hugging Face cross-encoder relevance scores for (query, passage) pairs
+ */
+export async function handleRerank(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { query, texts } = await readJson<{ query?: unknown; texts?: unknown }>(req);
+
+  if (typeof query !== 'string' || !query.trim() || query.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(400, 'query must be a non-empty string');
+  }
+  if (
+    !Array.isArray(texts) ||
+    texts.length === 0 ||
+    texts.length > MAX_EMBED_INPUTS ||
+    texts.some(text => typeof text !== 'string' || text.length > MAX_TEXT_LENGTH)
+  ) {
+    throw new HttpError(400, `texts must be an array of up to ${MAX_EMBED_INPUTS} strings`);
+  }
+
+  if (!config.huggingFace.apiKey) {
+    throw new HttpError(503, 'Hugging Face is not configured on the proxy');
+  }
+
+  const upstream = await fetch(`https://api-inference.huggingface.co/models/${config.huggingFace.rerankerModel}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${config.huggingFace.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      inputs: texts.map(text => ({ text: query, text_pair: text })),
+      options: { wait_for_model: true },
+    }),
+    signal: abortOnClose(req, res),
+  });
+
+  await pipeResponse(upstream, res);
+}
+
+/**
+ * POST /api/search — MongoDB Atlas vector search, or keyword search when `query` is given
+ */
+export async function handleSearch(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = await readJson<{
+    query?: unknown;
+    queryVector?: unknown;
+    collection?: string;
+    limit?: number;
+    medicalSpecialty?: unknown;
+    minConfidenceScore?: number;
+    ageGroups?: unknown;
+    edition?: unknown;
+  }>(req);
+
+  if (body.query !== undefined) {
+    await handleKeywordSearch(req, res, body);
+    return;
+  }
+
+  const queryVector = body.queryVector;
+  if (
+    !Array.isArray(queryVector) ||
+    queryVector.length !== EMBEDDING_DIMENSIONS ||
+    queryVector.some(value => typeof value !== 'number' || !Number.isFinite(value))
+  ) {
+    throw new HttpError(400, `queryVector must be an array of ${EMBEDDING_DIMENSIONS} numbers`);
+  }
+
+  const collection = body.collection ?? 'medical_embeddings';
+  const target = VECTOR_COLLECTIONS[collection];
+  if (!target) {
+    throw new HttpError(400, `Unknown collection: ${collection}`);
+  }
+
+  const limit = Math.round(clamp(body.limit, 1, MAX_SEARCH_RESULTS, 10));
+  const filters: Record<string, unknown> = {};
+
+  const medicalSpecialty = optionalString(body.medicalSpecialty, 'medicalSpecialty');
+  if (medicalSpecialty) {
+    filters.medical_specialty = medicalSpecialty;
+  }
+  if (typeof body.minConfidenceScore === 'number') {
+    filters.confidence_score = { $gte: clamp(body.minConfidenceScore, 0, 1, 0) };
+  }
+  const ageGroups = optionalAgeGroups(body.ageGroups);
+  if (ageGroups) {
+    filters.age_groups = { $in: ageGroups };
+  }
+  const edition = optionalEdition(body.edition);
+  if (edition) {
+    filters.edition = edition;
+  }
+
+  const documents = await mongoAggregate(collection, [
+    {
+      $vectorSearch: {
+        index: target.index,
+        path: target.path,
+        queryVector,
+        numCandidates: limit * 10,
+        limit,
+        ...(Object.keys(filters).length > 0 && { filter: filters }),
+      },
+    },
+    { $addFields: { score: { $meta: 'vectorSearchScore' } } },
+    {
+      $project: {
+        _id: 1,
+        content: 1,
+        metadata: 1,
+        medical_specialty: 1,
+        confidence_score: 1,
+        age_groups: 1,
+        chapter: 1,
+        edition: 1,
+        page_number: 1,
+        section: 1,
+        score: 1,
+      },
+    },
+  ], abortOnClose(req, res));
+
+  sendJson(res, 200, { documents });
+}
+
+async function handleKeywordSearch(
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: { query?: unknown; collection?: string; limit?: number; medicalSpecialty?: unknown; ageGroups?: unknown; edition?: unknown }
+): Promise<void> {
+  const query = requiredText(body.query, 'query');
+
+  const collection = body.collection ?? 'medical_embeddings';
+  if (collection !== 'medical_embeddings') {
+    throw new HttpError(400, `Keyword search is not available for ${collection}`);
+  }
+
+  const limit = Math.round(clamp(body.limit, 1, MAX_SEARCH_RESULTS, 10));
+  const medicalSpecialty = optionalString(body.medicalSpecialty, 'medicalSpecialty');
+  const ageGroups = optionalAgeGroups(body.ageGroups);
+  const edition = optionalEdition(body.edition);
+  const text = { query, path: ['content', 'section', 'metadata.title'], fuzzy: { maxEdits: 1 } };
+  const filter = [
+    ...(medicalSpecialty ? [{ text: { query: medicalSpecialty, path: 'medical_specialty' } }] : []),
+    ...(ageGroups ? [{ text: { query: ageGroups, path: 'age_groups' } }] : []),
+    ...(edition ? [{ equals: { path: 'edition', value: edition } }] : []),
+  ];
+
+  const documents = await mongoAggregate(collection, [
+    {
+      $search: {
+        index: 'medical_text_index',
+        ...(filter.length > 0 ? { compound: { must: [{ text }], filter } } : { text }),
+      },
+    },
+    { $limit: limit },
+    { $addFields: { score: { $meta: 'searchScore' } } },
+    { $project: { _id: 1, content: 1, metadata: 1, chapter: 1, edition: 1, page_number: 1, section: 1, score: 1 } },
+  ], abortOnClose(req, res));
+
+  sendJson(res, 200, { documents });
+}
+
+/**
+ * POST /api/drugs — pediatric drug dosage text search
+ */
+export async function handleDrugs(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = await readJson<{ query?: unknown; ageGroup?: unknown; route?: unknown; limit?: number }>(req);
+
+  const query = requiredText(body.query, 'query');
+  const ageGroup = optionalString(body.ageGroup, 'ageGroup');
+  const route = optionalString(body.route, 'route');
+  const limit = Math.round(clamp(body.limit, 1, MAX_SEARCH_RESULTS, 10));
+
+  const text = { query, path: ['drug_name', 'generic_name', 'indication'] };
+  const filters = [
+    ...(ageGroup ? [{ text: { query: ageGroup, path: 'age_group' } }] : []),
+    ...(route ? [{ text: { query: route, path: 'route' } }] : []),
+  ];
+
+  const documents = await mongoAggregate('pediatric_drug_dosages', [
+    {
+      $search: {
+        index: 'drug_search_index',
+        ...(filters.length > 0 ? { compound: { must: [{ text }], filter: filters } } : { text }),
+      },
+    },
+    { $limit: limit },
+    { $addFields: { score: { $meta: 'searchScore' } } },
+  ], abortOnClose(req, res));
+
+  sendJson(res, 200, { documents });
+}
+
+/**
+ * GET /api/health — which upstream services are configured
+ */
+export async function handleHealth(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+  sendJson(res, 200, {
+    status: 'ok',
+    services: {
+      llm: Boolean(config.llm.baseUrl),
+      embeddings: Boolean(config.huggingFace.apiKey),
+      mongodb: Boolean(config.mongodb.dataApiUrl && config.mongodb.apiKey),
+    },
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Minimal HTTP helpers for the proxy (no framework)
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config.js';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Read and parse a JSON request body, enforcing the configured size limit
+ */
+export async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > config.maxBodyBytes) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as T;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Apply CORS headers; returns false when the origin is missing or not allowed
+ * @param allowMissingOrigin - Accept requests without an Origin header (e.g. uptime checks)
+ */
+export function applyCors(req: IncomingMessage, res: ServerResponse, allowMissingOrigin = false): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return allowMissingOrigin;
+
+  if (!config.allowedOrigins.includes(origin) && !config.allowedOrigins.includes('*')) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  return true;
+}
+
+/**
+ * Abort upstream requests when the browser disconnects (e.g. the user pressed Stop)
+ */
+export function abortOnClose(req: IncomingMessage, res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  req.on('aborted', () => controller.abort());
+  return controller.signal;
+}
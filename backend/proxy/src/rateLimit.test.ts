@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createRateLimiter } from './rateLimit.js';
+
+describe('createRateLimiter', () => {
+  it('allows the limit per window and reports when to retry', () => {
+    const limiter = createRateLimiter(2, 60_000);
+
+    assert.equal(limiter.take('user:a', 0), 0);
+    assert.equal(limiter.take('user:a', 1_000), 0);
+    assert.equal(limiter.take('user:a', 15_000), 45);
+  });
+
+  it('counts callers separately', () => {
+    const limiter = createRateLimiter(1, 60_000);
+
+    assert.equal(limiter.take('user:a', 0), 0);
+    assert.equal(limiter.take('user:b', 0), 0);
+    assert.ok(limiter.take('user:a', 0) > 0);
+  });
+
+  it('starts a new window once the old one ends', () => {
+    const limiter = createRateLimiter(1, 60_000);
+
+    assert.equal(limiter.take('user:a', 0), 0);
+    assert.ok(limiter.take('user:a', 30_000) > 0);
+    assert.equal(limiter.take('user:a', 60_000), 0);
+  });
+
+  it('allows everything when the limit is 0', () => {
+    const limiter = createRateLimiter(0);
+    for (let i = 0; i < 5; i++) assert.equal(limiter.take('user:a', 0), 0);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * In-memory fixed-window rate limiting, per caller
+ * Enough for a single proxy instance; counters reset when the process restarts.
+ */
+
+export interface RateLimiter {
+  /**
+   * Count a request against a caller
+   * @returns Seconds until the caller may retry, or 0 when the request is allowed
+   */
+  take: (key: string, now?: number) => number;
+}
+
+/**
+ * @param limit - Requests allowed per window
+ * @param windowMs - Window length in ms
+ */
+export function createRateLimiter(limit: number, windowMs = 60_000): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastPrune = 0;
+
+  // Drop expired windows at most once per window so idle callers don't pile up
+  const prune = (now: number) => {
+    if (now - lastPrune < windowMs) return;
+    lastPrune = now;
+    for (const [key, window] of windows) {
+      if (now - window.start >= windowMs) windows.delete(key);
+    }
+  };
+
+  return {
+    take(key, now = Date.now()) {
+      if (limit <= 0) return 0;
+
+      prune(now);
+      let window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(key, window);
+      }
+
+      window.count += 1;
+      return window.count > limit ? Math.ceil((window.start + windowMs - now) / 1000) : 0;
+    },
+  };
+}
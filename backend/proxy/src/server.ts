@@ -0,0 +1,88 @@
+/**
+ * Nelson-GPT API proxy
+ * Holds vendor API keys server-side so they are never bundled into the PWA
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { config, validateConfig } from './config.js';
+import { authenticate } from './auth.js';
+import { HttpError, applyCors, sendJson } from './http.js';
+import { handleChat, handleDrugs, handleEmbed, handleHealth, handleRerank, handleSearch } from './handlers.js';
+import { createRateLimiter } from './rateLimit.js';
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+const routes: Record<string, Handler> = {
+  'POST /api/chat/stream': handleChat,
+  'POST /api/embed': handleEmbed,
+  'POST /api/rerank': handleRerank,
+  'POST /api/search': handleSearch,
+  'POST /api/drugs': handleDrugs,
+  'GET /api/health': handleHealth,
+};
+
+// Routes that spend no upstream credits and need no token
+const publicRoutes = new Set(['GET /api/health']);
+
+const rateLimiter = createRateLimiter(config.rateLimitPerMinute);
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const route = `${req.method} ${path}`;
+
+  if (!applyCors(req, res, publicRoutes.has(route))) {
+    sendJson(res, 403, { error: 'Origin not allowed' });
+    return;
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const handler = routes[route];
+
+  if (!handler) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  try {
+    if (!publicRoutes.has(route)) {
+      const retryAfter = rateLimiter.take(authenticate(req));
+      if (retryAfter > 0) {
+        res.setHeader('Retry-After', String(retryAfter));
+        throw new HttpError(429, 'Too many requests, try again shortly');
+      }
+    }
+
+    await handler(req, res);
+  } catch (error) {
+    // The client went away (e.g. Stop pressed); nothing left to answer
+    if (error instanceof Error && error.name === 'AbortError') {
+      res.destroy();
+      return;
+    }
+
+    const status = error instanceof HttpError ? error.status : 502;
+    const message = error instanceof Error ? error.message : 'Upstream request failed';
+    if (!(error instanceof HttpError)) {
+      console.error(`${req.method} ${path} failed:`, error);
+    }
+
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendJson(res, status, { error: message });
+    }
+  }
+});
+
+for (const issue of validateConfig()) {
+  console.warn(`⚠ ${issue}`);
+}
+
+server.listen(config.port, () => {
+  console.log(`Nelson-GPT proxy listening on http://localhost:${config.port}`);
+});
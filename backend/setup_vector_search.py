@@ -47,6 +47,10 @@ def setup_vector_search_indexes():
                 {
                     "type": "filter",
                     "path": "confidence_score"
+                },
+                {
+                    "type": "filter",
+                    "path": "edition"
                 }
             ]
         }
@@ -138,6 +142,55 @@ def setup_vector_search_indexes():
     print(json.dumps(drug_search_index, indent=2))
     print()
 
+    # Medical Text Search Index (keyword half of hybrid retrieval)
+    medical_text_index = {
+        "name": "medical_text_index",
+        "type": "search",
+        "definition": {
+            "mappings": {
+                "dynamic": False,
+                "fields": {
+                    "content": {
+                        "type": "string",
+                        "analyzer": "lucene.english"
+                    },
+                    "section": {
+                        "type": "string",
+                        "analyzer": "lucene.standard"
+                    },
+                    "metadata": {
+                        "type": "document",
+                        "fields": {
+                            "title": {
+                                "type": "string",
+                                "analyzer": "lucene.standard"
+                            }
+                        }
+                    },
+                    "medical_specialty": {
+                        "type": "string"
+                    },
+                    "age_groups": {
+                        "type": "string",
+                        "analyzer": "lucene.keyword"
+                    },
+                    "edition": {
+                        "type": "number"
+                    }
+                }
+            }
+        }
+    }
+
+    print("4. MEDICAL_EMBEDDINGS COLLECTION (Text Search)")
+    print("-" * 70)
+    print("Index Name: medical_text_index")
+    print("Collection: medical_embeddings")
+    print()
+    print("Index Definition (JSON):")
+    print(json.dumps(medical_text_index, indent=2))
+    print()
+
     print("="*70)
     print("📝 INSTRUCTIONS TO CREATE INDEXES")
     print("="*70)
@@ -213,7 +266,8 @@ def setup_vector_search_indexes():
     return {
         'medical_embeddings_index': medical_embeddings_index,
         'godzilla_index': godzilla_index,
-        'drug_search_index': drug_search_index
+        'drug_search_index': drug_search_index,
+        'medical_text_index': medical_text_index
     }
 
 
@@ -0,0 +1,12 @@
+// Imported into the generated service worker (see workbox.importScripts in vite.config.ts).
+// Answering needs the app itself, so a Background Sync only wakes any open window;
+// src/utils/offlineQueue.ts listens for the message.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'nelson-gpt-pending-questions') return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'answer-pending-questions' }));
+    })
+  );
+});
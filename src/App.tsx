@@ -6,6 +6,7 @@ import SplashScreen from './components/SplashScreen';
 import WelcomeScreen from './components/WelcomeScreen';
 import ChatInterface from './components/ChatInterface';
 import HistoryScreen from './components/HistoryScreen';
+import DosingCalculator from './components/DosingCalculator';
 import SettingsPanel from './components/SettingsPanel';
 import Navigation from './components/Navigation';
 import CitationModal from './components/CitationModal';
@@ -14,6 +15,8 @@ import OfflineBanner from './components/OfflineBanner';
 
 // Store
 import { useChatStore, useCurrentScreen, usePreferences } from './store/chatStore';
+import { startCloudSync } from './utils/cloudSync';
+import { startOfflineQueue } from './utils/offlineQueue';
 
 
 
@@ -40,6 +43,12 @@ function App() {
     return () => clearTimeout(timer);
   }, [currentScreen, setCurrentScreen]);
 
+  // Track sign-in and sync chat history when enabled
+  useEffect(() => startCloudSync(), []);
+
+  // Answer questions asked offline once the connection returns
+  useEffect(() => startOfflineQueue(), []);
+
   // Apply theme and appearance preferences
   useEffect(() => {
     const root = document.documentElement;
@@ -96,6 +105,8 @@ function App() {
         return <ChatInterface />;
       case 'history':
         return <HistoryScreen />;
+      case 'dosing':
+        return <DosingCalculator />;
       case 'settings':
         return <SettingsPanel isOpen={true} onClose={() => setCurrentScreen('welcome')} />;
       case 'profile':
@@ -1,53 +1,135 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useChatStore, useCurrentChat, usePreferences } from '../store/chatStore';
-import { ragPipeline, getRAGConfig } from '@/utils/rag';
+import { answerQuestion, isAnswering } from '@/utils/answer';
+import { hasOfflinePack } from '@/utils/offlinePack';
+import { cancelPendingQuestion, processPendingQuestions, queueQuestion, retryPendingQuestion } from '@/utils/offlineQueue';
+import { getActiveThread, getParentId, getSiblings } from '@/utils/conversation';
+import { Message } from '@/types';
+import PipelineStatus, { PipelineStep } from './PipelineStatus';
+import MarkdownContent from './MarkdownContent';
+import PatientContextModal from './PatientContextModal';
+import { formatPatientSummary } from '@/utils/patientContext';
+import { ROUTE_LABELS } from '@/utils/router';
 
 const ChatInterface: React.FC = () => {
   const currentChat = useCurrentChat();
   const preferences = usePreferences();
-  const { setCurrentScreen, addMessage, setLoading } = useChatStore();
+  const {
+    setCurrentScreen,
+    addMessage,
+    selectBranch,
+    setPatientContext,
+    setLoading,
+    setStreaming,
+    showCitationModalAction,
+    isOnline,
+    pendingQuestions
+  } = useChatStore();
   const [input, setInput] = useState('');
   const [sending, setSending] = useState(false);
+  const [pipelineSteps, setPipelineSteps] = useState<PipelineStep[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [showPatientContext, setShowPatientContext] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const thread = currentChat ? getActiveThread(currentChat) : [];
 
-  const handleSend = async () => {
-    if (!currentChat || !input.trim() || sending) return;
-
-    const chatId = currentChat.id;
-    const userContent = input.trim();
+  const finishCurrentStep = (at: number) => {
+    setPipelineSteps(steps => steps.map(step =>
+      step.finishedAt === undefined ? { ...step, finishedAt: at } : step
+    ));
+  };
 
-    setInput('');
+  /**
+   * Run the RAG pipeline for a user message and stream the answer into a new
+   * assistant message attached beneath it
+   */
+  const generateAnswer = async (chatId: string, userMessageId: string) => {
     setSending(true);
     setLoading(true);
+    setPipelineSteps([]);
 
-    addMessage(chatId, { role: 'user', content: userContent });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let streaming = false;
 
     try {
-      const ragConfig = getRAGConfig({
-        detailedResponses: preferences.detailedResponses,
-        includeReferences: preferences.includeReferences,
-        clinicalFocus: preferences.clinicalFocus,
-        vectorProvider: 'mongodb'
-      });
-
-      let acc = '';
-      let citations: any[] = [];
-
-      for await (const evt of ragPipeline(userContent, currentChat.mode, ragConfig)) {
-        if (evt.type === 'chunk' && typeof evt.data === 'string') {
-          acc += evt.data;
-        } else if (evt.type === 'citations') {
-          citations = evt.data || [];
+      await answerQuestion(chatId, userMessageId, {
+        signal: controller.signal,
+        onEvent: (evt) => {
+          if (evt.type === 'status') {
+            finishCurrentStep(evt.timestamp);
+            setPipelineSteps(steps => [
+              ...steps,
+              { stage: evt.stage, message: evt.message, startedAt: evt.timestamp }
+            ]);
+          } else if (evt.type === 'token' && !streaming) {
+            streaming = true;
+            setLoading(false);
+            setStreaming(true);
+          }
         }
-      }
-
-      addMessage(chatId, { role: 'assistant', content: acc, citations });
-    } catch (e) {
-      addMessage(chatId, { role: 'assistant', content: 'Sorry, I could not generate a response.' });
+      });
+    } catch (error) {
+      console.error('Failed to answer question:', error);
     } finally {
+      abortControllerRef.current = null;
       setSending(false);
       setLoading(false);
+      setStreaming(false);
+      setPipelineSteps([]);
+      // Queued questions in this chat waited for this answer
+      void processPendingQuestions();
+    }
+  };
+
+  // Offline without downloaded chapters there is nothing to answer from yet, and
+  // while the queue answers in this chat the new question waits its turn behind it
+  const answerOrQueue = async (chatId: string, userMessageId: string) => {
+    if (isAnswering(chatId) || (!isOnline && !(await hasOfflinePack()))) {
+      queueQuestion(chatId, userMessageId);
+      return;
     }
+    await generateAnswer(chatId, userMessageId);
+  };
+
+  const handleSend = async () => {
+    if (!currentChat || currentChat.messagesLoaded === false || !input.trim() || sending) return;
+
+    const userContent = input.trim();
+
+    setInput('');
+    const userMessageId = addMessage(currentChat.id, { role: 'user', content: userContent });
+    await answerOrQueue(currentChat.id, userMessageId);
+  };
+
+  const handleRegenerate = async (assistantMessage: Message) => {
+    if (!currentChat || sending) return;
+
+    const parentId = getParentId(currentChat, assistantMessage.id);
+    const userMessage = thread.find(message => message.id === parentId);
+    if (!userMessage || userMessage.role !== 'user') return;
+
+    await answerOrQueue(currentChat.id, userMessage.id);
+  };
+
+  const handleEditSubmit = async (userMessage: Message) => {
+    const content = editDraft.trim();
+    setEditingId(null);
+    if (!currentChat || sending || !content || content === userMessage.content) return;
+
+    // The edited question becomes a sibling branch of the original
+    const editedId = addMessage(currentChat.id, {
+      role: 'user',
+      content,
+      parentId: getParentId(currentChat, userMessage.id)
+    });
+    await answerOrQueue(currentChat.id, editedId);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
   if (!currentChat) {
@@ -97,35 +179,223 @@ const ChatInterface: React.FC = () => {
             </svg>
           </button>
         </div>
+
+        {/* Patient context chip */}
+        <div className="flex justify-center mt-2">
+          <button
+            onClick={() => setShowPatientContext(true)}
+            className={`inline-flex items-center space-x-1 text-xs px-3 py-1 rounded-full transition-colors ${
+              currentChat.patientContext
+                ? 'bg-primary-100 text-primary-700 hover:bg-primary-200'
+                : 'text-neutral-500 hover:bg-neutral-100'
+            }`}
+            aria-label={currentChat.patientContext ? 'Edit patient context' : 'Add patient context'}
+          >
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none">
+              <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+              <circle cx="12" cy="7" r="4" stroke="currentColor" strokeWidth="2"/>
+            </svg>
+            <span>{currentChat.patientContext ? formatPatientSummary(currentChat.patientContext) : 'Add patient context'}</span>
+          </button>
+        </div>
       </div>
 
+      <PatientContextModal
+        context={currentChat.patientContext}
+        isOpen={showPatientContext}
+        onSave={(context) => {
+          setPatientContext(currentChat.id, context);
+          setShowPatientContext(false);
+        }}
+        onClose={() => setShowPatientContext(false)}
+      />
+
       {/* Messages Area */}
       <div className="flex-1 px-4 py-6">
-        {currentChat.messages.length === 0 ? (
+        {currentChat.messagesLoaded === false ? (
+          <div className="text-center text-neutral-500 mt-20" role="status">
+            <p>Loading conversation...</p>
+          </div>
+        ) : thread.length === 0 ? (
           <div className="text-center text-neutral-500 mt-20">
             <p>Start your conversation with Nelson-GPT</p>
           </div>
         ) : (
           <div className="space-y-4">
-            {currentChat.messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
+            {thread.map((message) => {
+              const siblings = getSiblings(currentChat, message.id);
+              const siblingIndex = siblings.findIndex(sibling => sibling.id === message.id);
+              const isEditing = editingId === message.id;
+              const pending = pendingQuestions.find(question => question.messageId === message.id);
+
+              return (
                 <div
-                  className={`max-w-[80%] p-4 rounded-2xl ${
-                    message.role === 'user'
-                      ? 'bg-primary-100 text-medical-charcoal rounded-tr-md'
-                      : 'bg-white border border-neutral-200 text-medical-charcoal rounded-tl-md'
-                  }`}
+                  key={message.id}
+                  className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
                 >
-                  <p className="text-sm md:text-base">{message.content}</p>
-                  <p className="text-xs text-neutral-500 mt-2">
-                    {message.timestamp.toLocaleTimeString()}
-                  </p>
+                  <div
+                    className={`max-w-[80%] p-4 rounded-2xl ${
+                      message.role === 'user'
+                        ? 'bg-primary-100 text-medical-charcoal rounded-tr-md'
+                        : 'bg-white border border-neutral-200 text-medical-charcoal rounded-tl-md'
+                    }`}
+                  >
+                    {message.isStreaming && <PipelineStatus steps={pipelineSteps} />}
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={editDraft}
+                          onChange={(e) => setEditDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleEditSubmit(message); }
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          aria-label="Edit your question"
+                          className="w-full min-w-[240px] p-2 text-sm md:text-base border border-neutral-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          rows={3}
+                          autoFocus
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => setEditingId(null)}
+                            className="px-3 py-1 text-sm text-neutral-600 hover:bg-neutral-100 rounded-lg transition-colors"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleEditSubmit(message)}
+                            disabled={!editDraft.trim()}
+                            className="px-3 py-1 text-sm bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:opacity-50"
+                          >
+                            Save &amp; Send
+                          </button>
+                        </div>
+                      </div>
+                    ) : message.isStreaming && !message.content ? (
+                      <div className="loading-dots py-2" aria-label="Generating response">
+                        <span></span>
+                        <span></span>
+                        <span></span>
+                      </div>
+                    ) : message.role === 'assistant' ? (
+                      <MarkdownContent
+                        content={message.content}
+                        citations={message.citations}
+                        citationFormat={preferences.citationFormat}
+                        verification={message.verification}
+                        onCitationClick={showCitationModalAction}
+                      />
+                    ) : (
+                      <p className="text-sm md:text-base whitespace-pre-wrap">{message.content}</p>
+                    )}
+                    {message.interrupted && (
+                      <p className="text-xs italic text-neutral-500 mt-2">Generation stopped</p>
+                    )}
+                    <div className="flex items-center space-x-2 mt-2">
+                      <p className="text-xs text-neutral-500">
+                        {message.timestamp.toLocaleTimeString()}
+                      </p>
+                      {message.route && (
+                        <span
+                          className="px-2 py-0.5 text-xs bg-neutral-100 text-neutral-600 rounded-full"
+                          title={message.route.reason}
+                        >
+                          {ROUTE_LABELS[message.route.route]}
+                        </span>
+                      )}
+                      {pending && (
+                        <span
+                          className={`px-2 py-0.5 text-xs rounded-full ${
+                            pending.status === 'failed' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'
+                          }`}
+                          title={pending.error}
+                          role="status"
+                        >
+                          {pending.status === 'queued'
+                            ? (isOnline ? 'Queued, sending soon' : 'Queued until you are back online')
+                            : pending.status === 'running' ? 'Answering...' : 'Could not be answered'}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Message actions */}
+                  {!message.isStreaming && !isEditing && (
+                    <div className="flex items-center space-x-1 mt-1 text-neutral-500">
+                      {pending && pending.status !== 'running' && (
+                        <>
+                          {pending.status === 'failed' && (
+                            <button
+                              onClick={() => retryPendingQuestion(message.id)}
+                              className="px-2 py-1 text-xs hover:bg-neutral-100 rounded transition-colors"
+                              aria-label="Retry queued question"
+                            >
+                              Retry
+                            </button>
+                          )}
+                          <button
+                            onClick={() => cancelPendingQuestion(currentChat.id, message.id)}
+                            className="px-2 py-1 text-xs hover:bg-neutral-100 rounded transition-colors"
+                            aria-label="Cancel queued question"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      )}
+                      {siblings.length > 1 && (
+                        <div className="flex items-center text-xs" aria-label="Alternative versions">
+                          <button
+                            onClick={() => selectBranch(currentChat.id, siblings[siblingIndex - 1].id)}
+                            disabled={sending || siblingIndex === 0}
+                            className="p-1 hover:bg-neutral-100 rounded transition-colors disabled:opacity-30"
+                            aria-label="Previous version"
+                          >
+                            <svg width="14" height="14" viewBox="0 0 24 24" fill="none">
+                              <path d="M15 18l-6-6 6-6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                            </svg>
+                          </button>
+                          <span className="tabular-nums">{siblingIndex + 1}/{siblings.length}</span>
+                          <button
+                            onClick={() => selectBranch(currentChat.id, siblings[siblingIndex + 1].id)}
+                            disabled={sending || siblingIndex === siblings.length - 1}
+                            className="p-1 hover:bg-neutral-100 rounded transition-colors disabled:opacity-30"
+                            aria-label="Next version"
+                          >
+                            <svg width="14" height="14" viewBox="0 0 24 24" fill="none">
+                              <path d="M9 18l6-6-6-6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                            </svg>
+                          </button>
+                        </div>
+                      )}
+                      {message.role === 'user' ? (
+                        <button
+                          onClick={() => { setEditingId(message.id); setEditDraft(message.content); }}
+                          disabled={sending || Boolean(pending)}
+                          className="p-1 hover:bg-neutral-100 rounded transition-colors disabled:opacity-30"
+                          aria-label="Edit question"
+                        >
+                          <svg width="14" height="14" viewBox="0 0 24 24" fill="none">
+                            <path d="M12 20h9M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                          </svg>
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleRegenerate(message)}
+                          disabled={sending}
+                          className="p-1 hover:bg-neutral-100 rounded transition-colors disabled:opacity-30"
+                          aria-label="Regenerate response"
+                        >
+                          <svg width="14" height="14" viewBox="0 0 24 24" fill="none">
+                            <path d="M23 4v6h-6M1 20v-6h6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                            <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -142,16 +412,28 @@ const ChatInterface: React.FC = () => {
             aria-label="Type your message"
             className="flex-1 px-4 py-3 border border-neutral-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
           />
-          <button
-            onClick={handleSend}
-            disabled={sending || !input.trim()}
-            className="p-3 bg-primary-500 text-white rounded-xl hover:bg-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            aria-label="Send message"
-          >
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
-              <path d="M22 2L11 13M22 2l-7 20-4-9-9-4 20-7z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-            </svg>
-          </button>
+          {sending ? (
+            <button
+              onClick={handleStop}
+              className="p-3 bg-neutral-700 text-white rounded-xl hover:bg-neutral-800 transition-colors"
+              aria-label="Stop generating"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+                <rect x="6" y="6" width="12" height="12" rx="2" fill="currentColor"/>
+              </svg>
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              className="p-3 bg-primary-500 text-white rounded-xl hover:bg-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Send message"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+                <path d="M22 2L11 13M22 2l-7 20-4-9-9-4 20-7z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+            </button>
+          )}
         </div>
       </div>
     </motion.div>
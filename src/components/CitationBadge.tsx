@@ -0,0 +1,26 @@
+import React from 'react';
+import { CitationBadgeProps } from '../types';
+import { formatCitationLabel } from '@/utils/markdown';
+
+const CitationBadge: React.FC<CitationBadgeProps> = ({ citation, onClick, unsupported = false }) => {
+  const label = formatCitationLabel(citation);
+
+  return (
+    <button
+      type="button"
+      onClick={() => onClick(citation)}
+      className={`inline-flex items-center align-baseline mx-0.5 px-1.5 py-0.5 text-xs font-medium rounded-md transition-colors ${
+        unsupported
+          ? 'bg-red-50 text-red-700 border border-dashed border-red-300 hover:bg-red-100'
+          : 'bg-primary-100 text-primary-700 hover:bg-primary-200'
+      }`}
+      aria-label={`View citation: ${label}, ${citation.title}${unsupported ? ' (not found in retrieved sources)' : ''}`}
+      title={unsupported ? 'Not found among the retrieved passages' : undefined}
+    >
+      {label}
+      {unsupported && <span aria-hidden="true" className="ml-0.5">?</span>}
+    </button>
+  );
+};
+
+export default CitationBadge;
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Citation } from '../types';
+import { formatCitationLabel } from '@/utils/markdown';
 
 interface CitationModalProps {
   citation: Citation;
@@ -87,7 +88,7 @@ const CitationModal: React.FC<CitationModalProps> = ({ citation, isOpen, onClose
             <div className="p-6">
               <div className="space-y-4">
                 <div>
-                  <h3 className="font-medium text-medical-charcoal mb-1">{citation.chapter}</h3>
+                  <h3 className="font-medium text-medical-charcoal mb-1">{formatCitationLabel(citation)}</h3>
                   <p className="text-sm text-neutral-600">{citation.title}</p>
                 </div>
 
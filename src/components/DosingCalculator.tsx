@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useCurrentChat } from '../store/chatStore';
+import { searchDrugInformation } from '@/utils/rag';
+import {
+  DrugDosageRecord,
+  MAX_WEIGHT_KG,
+  calculateDose,
+  formatDoseRange,
+  parseDosage
+} from '@/utils/dosing';
+
+const selectClassName = 'w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const distinct = (values: Array<string | undefined>): string[] =>
+  Array.from(new Set(values.filter((value): value is string => Boolean(value)))).sort();
+
+const DosingCalculator: React.FC = () => {
+  const currentChat = useCurrentChat();
+  const [query, setQuery] = useState('');
+  const [records, setRecords] = useState<DrugDosageRecord[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+  const [indication, setIndication] = useState('');
+  const [route, setRoute] = useState('');
+  const [ageGroup, setAgeGroup] = useState('');
+  const [selected, setSelected] = useState<DrugDosageRecord | null>(null);
+  // Prefill from the open chat's patient context
+  const [weight, setWeight] = useState(
+    currentChat?.patientContext?.weightKg !== undefined ? String(currentChat.patientContext.weightKg) : ''
+  );
+
+  const filteredRecords = records.filter(record =>
+    (!indication || record.indication === indication) &&
+    (!route || record.route === route) &&
+    (!ageGroup || record.age_group === ageGroup)
+  );
+
+  const weightKg = parseFloat(weight);
+  const weightValid = Number.isFinite(weightKg) && weightKg > 0 && weightKg <= MAX_WEIGHT_KG;
+  const parsed = useMemo(() => (selected ? parseDosage(selected) : null), [selected]);
+  const calculation = parsed && weightValid ? calculateDose(parsed, weightKg) : null;
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim() || searching) return;
+
+    setSearching(true);
+    setSelected(null);
+    setIndication('');
+    setRoute('');
+    setAgeGroup('');
+
+    const results = await searchDrugInformation(query.trim(), { limit: 20 });
+    setRecords(results);
+    setSelected(results.length === 1 ? results[0] : null);
+    setSearched(true);
+    setSearching(false);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="min-h-screen bg-medical-ivory pb-20"
+    >
+      {/* Header */}
+      <div className="bg-white border-b border-neutral-200 px-4 py-4 safe-area-top">
+        <h1 className="text-xl font-bold text-medical-charcoal text-center">
+          Dosing Calculator
+        </h1>
+      </div>
+
+      <div className="p-4 space-y-4 max-w-2xl mx-auto">
+        {/* Drug search */}
+        <form onSubmit={handleSearch} className="flex space-x-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search a drug, e.g. amoxicillin"
+            aria-label="Search drugs"
+            className="flex-1 px-4 py-3 bg-white border border-neutral-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={!query.trim() || searching}
+            className="px-4 py-3 bg-primary-500 text-white rounded-xl hover:bg-primary-600 transition-colors disabled:opacity-50"
+          >
+            {searching ? 'Searching...' : 'Search'}
+          </button>
+        </form>
+
+        {/* Filters */}
+        {records.length > 0 && (
+          <div className="grid grid-cols-3 gap-2">
+            <select value={indication} onChange={(e) => setIndication(e.target.value)} aria-label="Indication" className={selectClassName}>
+              <option value="">All indications</option>
+              {distinct(records.map(record => record.indication)).map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+            <select value={route} onChange={(e) => setRoute(e.target.value)} aria-label="Route" className={selectClassName}>
+              <option value="">All routes</option>
+              {distinct(records.map(record => record.route)).map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+            <select value={ageGroup} onChange={(e) => setAgeGroup(e.target.value)} aria-label="Age group" className={selectClassName}>
+              <option value="">All age groups</option>
+              {distinct(records.map(record => record.age_group)).map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Results */}
+        {searched && records.length === 0 && (
+          <p className="text-center text-neutral-500 py-8">No matching dosage records</p>
+        )}
+        <div className="space-y-2">
+          {filteredRecords.map((record, index) => (
+            <button
+              key={record._id ?? index}
+              onClick={() => setSelected(record)}
+              className={`w-full text-left bg-white rounded-xl p-4 border-2 transition-all duration-200 ${
+                selected === record ? 'border-primary-500' : 'border-neutral-200 hover:border-neutral-300'
+              }`}
+              aria-pressed={selected === record}
+            >
+              <span className="block font-medium text-medical-charcoal">
+                {record.drug_name}
+                {record.generic_name && record.generic_name !== record.drug_name && (
+                  <span className="font-normal text-neutral-500"> ({record.generic_name})</span>
+                )}
+              </span>
+              <span className="block text-xs text-neutral-500 mt-1">
+                {[record.indication, record.route, record.age_group].filter(Boolean).join(' · ')}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {/* Calculation */}
+        {selected && (
+          <div className="bg-white rounded-xl p-4 border border-neutral-200 space-y-4">
+            <div>
+              <label htmlFor="dosing-weight" className="block text-sm font-medium text-medical-charcoal mb-1">
+                Weight (kg)
+              </label>
+              <input
+                id="dosing-weight"
+                type="number"
+                min="0"
+                max={MAX_WEIGHT_KG}
+                step="any"
+                inputMode="decimal"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+
+            {!parsed ? (
+              <p className="text-sm text-neutral-600">
+                This record has no weight-based dose to calculate. Use the source dosage below.
+              </p>
+            ) : calculation ? (
+              <div className="space-y-2" aria-live="polite">
+                {calculation.perDose && (
+                  <p className="text-lg font-semibold text-medical-charcoal">
+                    {formatDoseRange(calculation.perDose, calculation.unit)} per dose
+                    {calculation.frequency && (
+                      <span className="text-sm font-normal text-neutral-600"> · {calculation.frequency}</span>
+                    )}
+                  </p>
+                )}
+                {calculation.perDay && (
+                  <p className="text-sm text-neutral-700">
+                    {formatDoseRange(calculation.perDay, calculation.unit)} per day
+                  </p>
+                )}
+                <p className="text-xs text-neutral-500">
+                  {parsed.minPerKg === parsed.maxPerKg ? parsed.minPerKg : `${parsed.minPerKg}–${parsed.maxPerKg}`} {parsed.unit}/kg/{parsed.basis} × {calculation.weightKg} kg
+                </p>
+                {calculation.cappedBy.length > 0 && (
+                  <p className="text-sm px-3 py-2 bg-yellow-50 text-yellow-800 rounded-lg">
+                    Capped at the maximum {calculation.cappedBy.map(limit => (limit === 'dose' ? 'single' : 'daily')).join(' and ')} dose
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-neutral-600">Enter a weight up to {MAX_WEIGHT_KG} kg to calculate the dose.</p>
+            )}
+
+            {/* Source record */}
+            <div className="border-t border-neutral-200 pt-3">
+              <h2 className="text-sm font-medium text-neutral-700 mb-2">Source record</h2>
+              <dl className="text-sm grid grid-cols-[auto,1fr] gap-x-3 gap-y-1">
+                <dt className="text-neutral-500">Dosage</dt>
+                <dd className="text-medical-charcoal">{selected.dosage}</dd>
+                {selected.frequency && (
+                  <>
+                    <dt className="text-neutral-500">Frequency</dt>
+                    <dd className="text-medical-charcoal">{selected.frequency}</dd>
+                  </>
+                )}
+                {selected.max_dose && (
+                  <>
+                    <dt className="text-neutral-500">Max dose</dt>
+                    <dd className="text-medical-charcoal">{selected.max_dose}</dd>
+                  </>
+                )}
+                {selected.indication && (
+                  <>
+                    <dt className="text-neutral-500">Indication</dt>
+                    <dd className="text-medical-charcoal">{selected.indication}</dd>
+                  </>
+                )}
+                {selected.route && (
+                  <>
+                    <dt className="text-neutral-500">Route</dt>
+                    <dd className="text-medical-charcoal">{selected.route}</dd>
+                  </>
+                )}
+                {selected.age_group && (
+                  <>
+                    <dt className="text-neutral-500">Age group</dt>
+                    <dd className="text-medical-charcoal">{selected.age_group}</dd>
+                  </>
+                )}
+              </dl>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-neutral-500 text-center">
+          Calculated from the pediatric drug dosage reference. Verify against your local formulary before prescribing.
+        </p>
+      </div>
+    </motion.div>
+  );
+};
+
+export default DosingCalculator;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useChatStore, useChats } from '../store/chatStore';
 import { formatDistanceToNow } from 'date-fns';
+import { getActiveThread } from '@/utils/conversation';
 
 const HistoryScreen: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
@@ -80,60 +81,67 @@ const HistoryScreen: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-3">
-            {filteredChats.map((chat, index) => (
-              <motion.div
-                key={chat.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3, delay: index * 0.05 }}
-                onClick={() => handleChatClick(chat.id)}
-                className="bg-white rounded-xl p-4 shadow-sm border border-neutral-200 hover:shadow-md transition-all duration-200 cursor-pointer group"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1 min-w-0">
-                    {/* Chat Title */}
-                    <h3 className="font-medium text-medical-charcoal group-hover:text-primary-600 transition-colors truncate">
-                      {chat.title}
-                    </h3>
-                    
-                    {/* Last Message Preview */}
-                    {chat.messages.length > 0 && (
-                      <p className="text-sm text-neutral-500 mt-1 line-clamp-2">
-                        {chat.messages[chat.messages.length - 1].content}
-                      </p>
-                    )}
-                    
-                    {/* Metadata */}
-                    <div className="flex items-center space-x-3 mt-2">
-                      <span className="text-xs text-neutral-400">
-                        {formatDistanceToNow(chat.updatedAt, { addSuffix: true })}
-                      </span>
-                      <span className={`text-xs px-2 py-1 rounded-full ${
-                        chat.mode === 'clinical' 
-                          ? 'bg-green-100 text-green-700' 
-                          : 'bg-primary-100 text-primary-700'
-                      }`}>
-                        {chat.mode}
-                      </span>
-                      <span className="text-xs text-neutral-400">
-                        {chat.messages.length} message{chat.messages.length !== 1 ? 's' : ''}
-                      </span>
+            {filteredChats.map((chat, index) => {
+              const thread = getActiveThread(chat);
+              // Unopened chats show the preview stored alongside them
+              const lastMessage = chat.messagesLoaded === false ? chat.summary?.lastMessage : thread[thread.length - 1]?.content;
+              const messageCount = chat.messagesLoaded === false ? chat.summary?.messageCount ?? 0 : thread.length;
+
+              return (
+                <motion.div
+                  key={chat.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: index * 0.05 }}
+                  onClick={() => handleChatClick(chat.id)}
+                  className="bg-white rounded-xl p-4 shadow-sm border border-neutral-200 hover:shadow-md transition-all duration-200 cursor-pointer group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      {/* Chat Title */}
+                      <h3 className="font-medium text-medical-charcoal group-hover:text-primary-600 transition-colors truncate">
+                        {chat.title}
+                      </h3>
+                      
+                      {/* Last Message Preview */}
+                      {lastMessage && (
+                        <p className="text-sm text-neutral-500 mt-1 line-clamp-2">
+                          {lastMessage}
+                        </p>
+                      )}
+                      
+                      {/* Metadata */}
+                      <div className="flex items-center space-x-3 mt-2">
+                        <span className="text-xs text-neutral-400">
+                          {formatDistanceToNow(chat.updatedAt, { addSuffix: true })}
+                        </span>
+                        <span className={`text-xs px-2 py-1 rounded-full ${
+                          chat.mode === 'clinical' 
+                            ? 'bg-green-100 text-green-700' 
+                            : 'bg-primary-100 text-primary-700'
+                        }`}>
+                          {chat.mode}
+                        </span>
+                        <span className="text-xs text-neutral-400">
+                          {messageCount} message{messageCount !== 1 ? 's' : ''}
+                        </span>
+                      </div>
                     </div>
+                    
+                    {/* Delete Button */}
+                    <button
+                      onClick={(e) => handleDeleteChat(chat.id, e)}
+                      className="ml-3 p-2 text-neutral-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all duration-200 opacity-0 group-hover:opacity-100"
+                      aria-label="Delete chat"
+                    >
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
+                        <path d="M3 6h18M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2M10 11v6M14 11v6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                      </svg>
+                    </button>
                   </div>
-                  
-                  {/* Delete Button */}
-                  <button
-                    onClick={(e) => handleDeleteChat(chat.id, e)}
-                    className="ml-3 p-2 text-neutral-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all duration-200 opacity-0 group-hover:opacity-100"
-                    aria-label="Delete chat"
-                  >
-                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
-                      <path d="M3 6h18M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2M10 11v6M14 11v6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                    </svg>
-                  </button>
-                </div>
-              </motion.div>
-            ))}
+                </motion.div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import CitationBadge from './CitationBadge';
+import ReferenceList from './ReferenceList';
+import { Citation, CitationFormat, CitationVerification } from '../types';
+import { normalizeChapter } from '@/utils/verification';
+import {
+  CITATION_LINK_PREFIX,
+  buildFootnotes,
+  citationTarget,
+  cleanMarkdownContent,
+  formatCitationLabel,
+  parseCitationTarget,
+  renderCitationsAsBadges,
+  resolveCitationLink
+} from '@/utils/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  citations?: Citation[];
+  citationFormat?: CitationFormat;
+  verification?: CitationVerification;
+  onCitationClick: (citation: Citation) => void;
+}
+
+// Raw HTML is never rendered; only our citation scheme is added to the safe URL list
+const urlTransform = (url: string) =>
+  url.startsWith(CITATION_LINK_PREFIX) ? url : defaultUrlTransform(url);
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  citations = [],
+  citationFormat = 'inline',
+  verification,
+  onCitationClick
+}) => {
+  const unsupported = new Set(verification?.unsupportedChapters ?? []);
+
+  const { markdown, references } = useMemo(() => {
+    const cleaned = cleanMarkdownContent(content);
+
+    if (citationFormat === 'footnotes') {
+      const footnotes = buildFootnotes(cleaned, citations);
+      return { markdown: footnotes.content, references: footnotes.references };
+    }
+
+    return { markdown: renderCitationsAsBadges(cleaned), references: [] };
+  }, [content, citations, citationFormat]);
+
+  return (
+    <div>
+      <div className="markdown-body text-sm md:text-base">
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          rehypePlugins={[rehypeHighlight]}
+          urlTransform={urlTransform}
+          skipHtml
+          components={{
+            a: ({ href, children }) => {
+              if (href?.startsWith(CITATION_LINK_PREFIX)) {
+                const target = href.slice(CITATION_LINK_PREFIX.length);
+                const { chapter, edition } = parseCitationTarget(target);
+                const isUnsupported = unsupported.has(citationTarget(edition, normalizeChapter(chapter)));
+
+                if (citationFormat === 'footnotes') {
+                  const citation = resolveCitationLink(target, references);
+                  return (
+                    <sup>
+                      <button
+                        type="button"
+                        onClick={() => onCitationClick(citation)}
+                        className={`px-0.5 font-medium hover:underline ${isUnsupported ? 'text-red-600' : 'text-primary-700'}`}
+                        aria-label={`Reference ${children}: ${formatCitationLabel(citation)}${isUnsupported ? ' (not found in retrieved sources)' : ''}`}
+                      >
+                        [{children}]
+                      </button>
+                    </sup>
+                  );
+                }
+
+                const citation = resolveCitationLink(target, citations);
+                return <CitationBadge citation={citation} onClick={onCitationClick} unsupported={isUnsupported} />;
+              }
+
+              return (
+                <a href={href} target="_blank" rel="noopener noreferrer">
+                  {children}
+                </a>
+              );
+            },
+            table: ({ children }) => (
+              <div className="overflow-x-auto">
+                <table>{children}</table>
+              </div>
+            )
+          }}
+        >
+          {markdown}
+        </ReactMarkdown>
+      </div>
+      <ReferenceList references={references} onCitationClick={onCitationClick} />
+      {verification && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+          <span
+            className={`px-2 py-0.5 rounded-full ${
+              verification.groundingScore >= 0.8
+                ? 'bg-green-100 text-green-700'
+                : verification.groundingScore >= 0.5
+                ? 'bg-yellow-100 text-yellow-700'
+                : 'bg-red-100 text-red-700'
+            }`}
+            title="Share of cited chapters found among the retrieved Nelson passages"
+          >
+            Grounding {Math.round(verification.groundingScore * 100)}%
+          </span>
+          {verification.unsupportedChapters.length > 0 && (
+            <span className="text-red-600">
+              {verification.unsupportedChapters.map(key => formatCitationLabel(parseCitationTarget(key))).join(', ')} not found in retrieved sources. Verify before relying on {verification.unsupportedChapters.length === 1 ? 'it' : 'them'}.
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -39,6 +39,16 @@ const Navigation: React.FC = () => {
         </svg>
       )
     },
+    {
+      id: 'dosing',
+      label: 'Dosing',
+      icon: (
+        <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+          <rect x="4" y="2" width="16" height="20" rx="2" stroke="currentColor" strokeWidth="2"/>
+          <path d="M8 6h8M8 11h2M14 11h2M8 15h2M14 15h2M8 19h2M14 19h2" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+        </svg>
+      )
+    },
     {
       id: 'settings',
       label: 'Settings',
@@ -1,7 +1,14 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
+import { hasOfflinePack } from '@/utils/offlinePack';
 
 const OfflineBanner: React.FC = () => {
+  const [packInstalled, setPackInstalled] = useState(false);
+
+  useEffect(() => {
+    hasOfflinePack().then(setPackInstalled);
+  }, []);
+
   return (
     <motion.div
       initial={{ y: -50, opacity: 0 }}
@@ -13,7 +20,11 @@ const OfflineBanner: React.FC = () => {
         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" className="text-white">
           <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
         </svg>
-        <span>You're offline. Some features may be limited.</span>
+        <span>
+          {packInstalled
+            ? "You're offline. Answers come from your downloaded chapters."
+            : "You're offline. Some features may be limited."}
+        </span>
       </div>
     </motion.div>
   );
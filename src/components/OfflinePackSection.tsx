@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { formatEdition } from '@/utils/editions';
+import {
+  InstalledPack,
+  fetchPackManifest,
+  installPack,
+  listInstalledPacks,
+  removePack,
+  warmUpOfflineModel
+} from '@/utils/offlinePack';
+import { OfflinePackEntry } from '@/utils/offlinePackFormat';
+
+const formatSize = (bytes: number) => (bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`);
+
+const packLabel = (pack: OfflinePackEntry) => `Ch. ${pack.chapter}${pack.edition ? ` (${formatEdition(pack.edition)})` : ''}: ${pack.title}`;
+
+/**
+ * Settings section for downloading chapters to search without a connection
+ */
+const OfflinePackSection: React.FC = () => {
+  const [available, setAvailable] = useState<OfflinePackEntry[]>([]);
+  const [installed, setInstalled] = useState<InstalledPack[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    listInstalledPacks().then(setInstalled).catch(error => console.warn('Could not list offline packs:', error));
+    fetchPackManifest(controller.signal)
+      .then(manifest => setAvailable(manifest.packs))
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          setStatus(error instanceof Error ? error.message : 'Could not load the offline packs');
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  const installedById = new Map(installed.map(pack => [pack.id, pack]));
+  // Chapters installed earlier stay listed even when the manifest can't be loaded
+  const packs: OfflinePackEntry[] = [...available, ...installed.filter(pack => !available.some(entry => entry.id === pack.id))];
+  const selectedBytes = available.filter(pack => selected.has(pack.id)).reduce((total, pack) => total + pack.bytes, 0);
+  const installedBytes = installed.reduce((total, pack) => total + pack.bytes, 0);
+
+  const toggleSelected = (id: string) => {
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDownload = async () => {
+    const entries = available.filter(pack => selected.has(pack.id));
+    if (entries.length === 0) return;
+
+    setBusy(true);
+    try {
+      for (const [index, entry] of entries.entries()) {
+        setStatus(`Downloading ${index + 1} of ${entries.length}: ${entry.title}`);
+        await installPack(entry);
+      }
+      setStatus('Preparing on-device search...');
+      await warmUpOfflineModel();
+      setSelected(new Set());
+      setStatus(`${entries.length} chapter${entries.length === 1 ? '' : 's'} available offline`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Download failed');
+    } finally {
+      setInstalled(await listInstalledPacks().catch(() => installed));
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (pack: OfflinePackEntry) => {
+    setBusy(true);
+    try {
+      await removePack(pack.id);
+      setInstalled(previous => previous.filter(entry => entry.id !== pack.id));
+      setStatus(`Removed ${pack.title}`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Could not remove the chapter');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-medical-charcoal mb-4">Offline Knowledge Pack</h2>
+      <p className="text-sm text-neutral-600 mb-6">
+        Download chapters to search them on this device without a connection. Offline answers quote the matching passages when the language model can't be reached.
+      </p>
+
+      {packs.length > 0 && (
+        <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+          {packs.map(pack => {
+            const installedPack = installedById.get(pack.id);
+            const canDownload = available.some(entry => entry.id === pack.id);
+
+            return (
+              <div key={pack.id} className="flex items-center justify-between p-3 bg-neutral-50 rounded-xl">
+                <label className="flex items-center space-x-3 min-w-0 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(pack.id)}
+                    onChange={() => toggleSelected(pack.id)}
+                    disabled={busy || !canDownload}
+                    className="h-4 w-4 flex-shrink-0 accent-primary-500"
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium text-medical-charcoal truncate">{packLabel(pack)}</span>
+                    <span className="block text-xs text-neutral-500">
+                      {formatSize(pack.bytes)} · {installedPack ? `Installed ${installedPack.installedAt.toLocaleDateString()}` : 'Not downloaded'}
+                    </span>
+                  </span>
+                </label>
+                {installedPack && (
+                  <button
+                    onClick={() => handleRemove(pack)}
+                    disabled={busy}
+                    className="ml-3 px-3 py-1 text-xs text-red-700 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50"
+                    aria-label={`Remove ${pack.title} from this device`}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <button
+        onClick={handleDownload}
+        disabled={busy || selected.size === 0}
+        className="w-full px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white rounded-lg transition-colors disabled:opacity-50"
+      >
+        {selected.size > 0 ? `Download ${selected.size} (${formatSize(selectedBytes)})` : 'Select Chapters to Download'}
+      </button>
+      {installed.length > 0 && (
+        <p className="text-xs text-neutral-500 mt-3">
+          {installed.length} chapter{installed.length === 1 ? '' : 's'} stored on this device ({formatSize(installedBytes)})
+        </p>
+      )}
+      {status && (
+        <p className="text-sm text-neutral-600 mt-3" role="status">{status}</p>
+      )}
+    </div>
+  );
+};
+
+export default OfflinePackSection;
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AgeUnit, PatientContext, PatientSex } from '../types';
+import { MAX_WEIGHT_KG, isSupportedWeight } from '@/utils/dosing';
+import { normalizePatientContext } from '@/utils/patientContext';
+
+interface PatientContextModalProps {
+  context?: PatientContext;
+  isOpen: boolean;
+  onSave: (context: PatientContext | undefined) => void;
+  onClose: () => void;
+}
+
+const AGE_UNITS: AgeUnit[] = ['days', 'weeks', 'months', 'years'];
+
+const inputClassName = 'w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const PatientContextModal: React.FC<PatientContextModalProps> = ({ context, isOpen, onSave, onClose }) => {
+  const modalRef = useRef<HTMLDivElement>(null);
+  const [ageValue, setAgeValue] = useState('');
+  const [ageUnit, setAgeUnit] = useState<AgeUnit>('years');
+  const [weight, setWeight] = useState('');
+  const [sex, setSex] = useState<PatientSex | ''>('');
+  const [history, setHistory] = useState('');
+
+  // Start from the saved context each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setAgeValue(context?.age ? String(context.age.value) : '');
+    setAgeUnit(context?.age?.unit ?? 'years');
+    setWeight(context?.weightKg !== undefined ? String(context.weightKg) : '');
+    setSex(context?.sex ?? '');
+    setHistory(context?.history ?? '');
+
+    modalRef.current?.querySelector<HTMLElement>('input, select, textarea')?.focus();
+  }, [isOpen, context]);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  const weightInvalid = weight.trim() !== '' && !isSupportedWeight(parseFloat(weight));
+
+  const handleSave = () => {
+    if (weightInvalid) return;
+    onSave(normalizePatientContext({
+      age: ageValue.trim() ? { value: parseFloat(ageValue), unit: ageUnit } : undefined,
+      weightKg: weight.trim() ? parseFloat(weight) : undefined,
+      sex: sex || undefined,
+      history,
+    }));
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            ref={modalRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="patient-context-title"
+            onKeyDown={onKeyDown}
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className="fixed inset-x-4 top-1/2 transform -translate-y-1/2 bg-white rounded-2xl shadow-2xl z-50 max-w-md mx-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-6 border-b border-neutral-200">
+              <h2 id="patient-context-title" className="text-lg font-semibold text-medical-charcoal">Patient Context</h2>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-neutral-100 rounded-lg transition-colors"
+                aria-label="Close patient context"
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+                  <path d="M18 6L6 18M6 6l12 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="p-6">
+              <p className="text-sm text-neutral-600 mb-4">
+                Optional. Used to tailor answers and retrieval for this chat only. Do not enter names or identifiers.
+              </p>
+
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="patient-age" className="block text-sm font-medium text-medical-charcoal mb-1">Age</label>
+                  <div className="flex space-x-2">
+                    <input
+                      id="patient-age"
+                      type="number"
+                      min="0"
+                      step="any"
+                      inputMode="decimal"
+                      value={ageValue}
+                      onChange={(e) => setAgeValue(e.target.value)}
+                      className={inputClassName}
+                    />
+                    <select
+                      value={ageUnit}
+                      onChange={(e) => setAgeUnit(e.target.value as AgeUnit)}
+                      aria-label="Age unit"
+                      className="px-3 py-2 border border-neutral-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      {AGE_UNITS.map(unit => (
+                        <option key={unit} value={unit}>{unit}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="patient-weight" className="block text-sm font-medium text-medical-charcoal mb-1">Weight (kg)</label>
+                    <input
+                      id="patient-weight"
+                      type="number"
+                      min="0"
+                      max={MAX_WEIGHT_KG}
+                      step="any"
+                      inputMode="decimal"
+                      value={weight}
+                      onChange={(e) => setWeight(e.target.value)}
+                      aria-invalid={weightInvalid}
+                      aria-describedby={weightInvalid ? 'patient-weight-error' : undefined}
+                      className={inputClassName}
+                    />
+                    {weightInvalid && (
+                      <p id="patient-weight-error" className="text-xs text-red-700 mt-1">Enter a weight up to {MAX_WEIGHT_KG} kg</p>
+                    )}
+                  </div>
+                  <div>
+                    <label htmlFor="patient-sex" className="block text-sm font-medium text-medical-charcoal mb-1">Sex</label>
+                    <select
+                      id="patient-sex"
+                      value={sex}
+                      onChange={(e) => setSex(e.target.value as PatientSex | '')}
+                      className={`${inputClassName} bg-white`}
+                    >
+                      <option value="">Not specified</option>
+                      <option value="female">Female</option>
+                      <option value="male">Male</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="patient-history" className="block text-sm font-medium text-medical-charcoal mb-1">Relevant history</label>
+                  <textarea
+                    id="patient-history"
+                    value={history}
+                    onChange={(e) => setHistory(e.target.value)}
+                    placeholder="e.g. ex-28 week preterm, VSD, penicillin allergy"
+                    rows={3}
+                    maxLength={500}
+                    className={`${inputClassName} resize-none`}
+                  />
+                </div>
+              </div>
+
+              {/* Actions */}
+              <div className="flex space-x-3 mt-6">
+                <button
+                  onClick={() => onSave(undefined)}
+                  className="flex-1 px-4 py-2 bg-neutral-100 hover:bg-neutral-200 text-neutral-700 rounded-lg transition-colors"
+                >
+                  Clear
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={weightInvalid}
+                  className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default PatientContextModal;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RAGStage } from '@/utils/rag';
+
+export interface PipelineStep {
+  stage: RAGStage;
+  message: string;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+interface PipelineStatusProps {
+  steps: PipelineStep[];
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const PipelineStatus: React.FC<PipelineStatusProps> = ({ steps }) => {
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="mb-2 space-y-1" role="status" aria-live="polite">
+      <AnimatePresence initial={false}>
+        {steps.map((step) => {
+          const done = typeof step.finishedAt === 'number';
+
+          return (
+            <motion.div
+              key={step.stage}
+              initial={{ opacity: 0, y: -4 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0 }}
+              className="flex items-center justify-between text-xs text-neutral-500"
+            >
+              <div className="flex items-center space-x-2">
+                {done ? (
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" className="text-green-600">
+                    <path d="M20 6L9 17l-5-5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                  </svg>
+                ) : (
+                  <span className="loading-dots">
+                    <span></span>
+                    <span></span>
+                    <span></span>
+                  </span>
+                )}
+                <span>{step.message}</span>
+              </div>
+              {done && (
+                <span className="ml-3 tabular-nums text-neutral-400">
+                  {formatDuration(step.finishedAt! - step.startedAt)}
+                </span>
+              )}
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default PipelineStatus;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Citation } from '../types';
+import { formatCitationLabel } from '@/utils/markdown';
+
+interface ReferenceListProps {
+  references: Citation[];
+  onCitationClick: (citation: Citation) => void;
+}
+
+const confidenceStyles: Record<Citation['confidence'], string> = {
+  high: 'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  low: 'bg-red-100 text-red-700'
+};
+
+const ReferenceList: React.FC<ReferenceListProps> = ({ references, onCitationClick }) => {
+  if (references.length === 0) return null;
+
+  return (
+    <div className="mt-4 pt-3 border-t border-neutral-200">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-neutral-500 mb-2">References</h4>
+      <ol className="space-y-1.5">
+        {references.map((reference, index) => (
+          <li key={`${reference.id}-${index}`} id={`ref-${index + 1}`} className="flex items-start text-xs text-neutral-600">
+            <span className="w-5 flex-shrink-0 font-medium tabular-nums">{index + 1}.</span>
+            <button
+              type="button"
+              onClick={() => onCitationClick(reference)}
+              className="flex-1 text-left hover:text-primary-700 transition-colors"
+            >
+              <span className="font-medium text-medical-charcoal">{formatCitationLabel(reference)}</span>
+              {reference.title && <span> — {reference.title}</span>}
+              {reference.pageRange && reference.pageRange !== 'N/A' && <span>, p. {reference.pageRange}</span>}
+              <span className={`ml-2 px-1.5 py-0.5 rounded-full ${confidenceStyles[reference.confidence]}`}>
+                {reference.confidence}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ReferenceList;
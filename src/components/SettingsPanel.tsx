@@ -1,7 +1,23 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useChatStore, usePreferences } from '../store/chatStore';
-import { UserPreferences, Theme, FontSize, ColorPalette } from '../types';
+import { UserPreferences, Theme, FontSize, ColorPalette, CitationFormat } from '../types';
+import { LLM_PROVIDERS } from '@/utils/llm';
+import { RERANKERS } from '@/utils/rerank';
+import { NELSON_EDITIONS } from '@/utils/editions';
+import { signInWithEmail, signOut } from '@/utils/supabase';
+import {
+  chatsToMarkdown,
+  createExportBundle,
+  downloadFile,
+  exportFilename,
+  openPrintWindow,
+  parseExportBundle,
+  printChats
+} from '@/utils/chatExport';
+import OfflinePackSection from './OfflinePackSection';
+
+type ExportFormat = 'markdown' | 'pdf' | 'json';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -10,7 +26,74 @@ interface SettingsPanelProps {
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
   const preferences = usePreferences();
-  const { updatePreferences, clearAllChats } = useChatStore();
+  const { updatePreferences, clearAllChats, user, chats, loadChatMessages, importChats } = useChatStore();
+  const [exportChatId, setExportChatId] = useState('all');
+  const [dataStatus, setDataStatus] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [email, setEmail] = useState('');
+  const [authStatus, setAuthStatus] = useState<string | null>(null);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      await signInWithEmail(email.trim());
+      setAuthStatus(`Check ${email.trim()} for a sign-in link`);
+    } catch (error) {
+      setAuthStatus(error instanceof Error ? error.message : 'Could not send the sign-in link');
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    // Open the print window before any await so the click still counts as a user gesture
+    const printWindow = format === 'pdf' ? openPrintWindow() : null;
+    if (format === 'pdf' && !printWindow) {
+      setDataStatus('Allow pop-ups to print or save as PDF');
+      return;
+    }
+
+    const ids = exportChatId === 'all' ? chats.map(chat => chat.id) : [exportChatId];
+    // Chats not opened this session still have their messages in storage
+    await Promise.all(ids.map(id => loadChatMessages(id)));
+    const selected = useChatStore.getState().chats.filter(chat => ids.includes(chat.id));
+    if (selected.length === 0) {
+      printWindow?.close();
+      return;
+    }
+
+    if (format === 'markdown') {
+      downloadFile(exportFilename(selected, 'md'), chatsToMarkdown(selected), 'text/markdown');
+    } else if (format === 'json') {
+      downloadFile(exportFilename(selected, 'json'), JSON.stringify(createExportBundle(selected), null, 2), 'application/json');
+    } else if (printWindow) {
+      await printChats(printWindow, selected);
+    }
+    setDataStatus(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { added, updated, skipped } = importChats(parseExportBundle(await file.text()));
+      setDataStatus(`Imported ${added} new and ${updated} updated chat${added + updated !== 1 ? 's' : ''}${skipped ? `, ${skipped} already up to date` : ''}`);
+    } catch (error) {
+      console.error('Chat import failed:', error);
+      setDataStatus(error instanceof Error ? error.message : 'Could not import the file');
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      setAuthStatus(null);
+    } catch (error) {
+      setAuthStatus(error instanceof Error ? error.message : 'Could not sign out');
+    }
+  };
 
   const handlePreferenceChange = <K extends keyof UserPreferences>(
     key: K,
@@ -282,8 +365,234 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
                     </button>
                   </div>
                 </div>
+
+                {/* Citation Format */}
+                <div className="mt-6">
+                  <label className="block text-sm font-medium text-medical-charcoal mb-3">
+                    Citation Format
+                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {([
+                      { id: 'inline', name: 'Inline', description: 'Chapter badges in the text' },
+                      { id: 'footnotes', name: 'Footnotes', description: 'Numbered references list' }
+                    ] as Array<{ id: CitationFormat; name: string; description: string }>).map((format) => (
+                      <button
+                        key={format.id}
+                        onClick={() => handlePreferenceChange('citationFormat', format.id)}
+                        className={`p-3 rounded-xl border-2 text-left transition-all duration-200 ${
+                          preferences.citationFormat === format.id
+                            ? 'border-primary-500 bg-primary-50'
+                            : 'border-neutral-200 hover:border-neutral-300'
+                        }`}
+                        aria-pressed={preferences.citationFormat === format.id}
+                        aria-label={`Use ${format.name.toLowerCase()} citations`}
+                      >
+                        <span className="block text-sm font-medium">{format.name}</span>
+                        <span className="block text-xs text-neutral-500 mt-1">{format.description}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Preferred Edition */}
+                <div className="mt-6">
+                  <label className="block text-sm font-medium text-medical-charcoal mb-1">
+                    Preferred Edition
+                  </label>
+                  <p className="text-xs text-neutral-500 mb-3">
+                    Chapter numbers differ between editions. Answers come from this edition when it covers the topic.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    {[
+                      { id: null, name: 'All Editions', description: 'Search every indexed edition' },
+                      ...NELSON_EDITIONS.map(edition => ({ id: edition.id, name: edition.name, description: `Published ${edition.year}` }))
+                    ].map((edition) => (
+                      <button
+                        key={edition.id ?? 'all'}
+                        onClick={() => handlePreferenceChange('preferredEdition', edition.id)}
+                        className={`p-3 rounded-xl border-2 text-left transition-all duration-200 ${
+                          preferences.preferredEdition === edition.id
+                            ? 'border-primary-500 bg-primary-50'
+                            : 'border-neutral-200 hover:border-neutral-300'
+                        }`}
+                        aria-pressed={preferences.preferredEdition === edition.id}
+                        aria-label={edition.id ? `Prefer the ${edition.name.toLowerCase()}` : 'Search all editions'}
+                      >
+                        <span className="block text-sm font-medium">{edition.name}</span>
+                        <span className="block text-xs text-neutral-500 mt-1">{edition.description}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Language Model Section */}
+              <div>
+                <h2 className="text-lg font-semibold text-medical-charcoal mb-4">Language Model</h2>
+                <p className="text-sm text-neutral-600 mb-6">
+                  Choose where answers are generated. Use a self-hosted server to keep questions on your network.
+                </p>
+
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  {LLM_PROVIDERS.map((provider) => (
+                    <button
+                      key={provider.id}
+                      onClick={() => handlePreferenceChange('llmProvider', provider.id)}
+                      className={`p-3 rounded-xl border-2 text-left transition-all duration-200 ${
+                        preferences.llmProvider === provider.id
+                          ? 'border-primary-500 bg-primary-50'
+                          : 'border-neutral-200 hover:border-neutral-300'
+                      }`}
+                      aria-pressed={preferences.llmProvider === provider.id}
+                      aria-label={`Use ${provider.name} language model`}
+                    >
+                      <span className="block text-sm font-medium">{provider.name}</span>
+                      <span className="block text-xs text-neutral-500 mt-1">{provider.description}</span>
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between p-4 bg-neutral-50 rounded-xl mb-4">
+                  <div>
+                    <h3 className="font-medium text-medical-charcoal">On-device Embeddings</h3>
+                    <p className="text-sm text-neutral-600">Encode questions in the browser instead of Hugging Face</p>
+                  </div>
+                  <button
+                    onClick={() => handlePreferenceChange('embeddingProvider', preferences.embeddingProvider === 'local' ? 'huggingface' : 'local')}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      preferences.embeddingProvider === 'local' ? 'bg-primary-500' : 'bg-neutral-300'
+                    }`}
+                    role="switch"
+                    aria-checked={preferences.embeddingProvider === 'local'}
+                    aria-label="On-device embeddings"
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        preferences.embeddingProvider === 'local' ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                <div className="mb-4">
+                  <h3 className="font-medium text-medical-charcoal mb-1">Passage Reranking</h3>
+                  <p className="text-sm text-neutral-600 mb-3">Re-score retrieved passages against your question before answering</p>
+                  <div className="grid grid-cols-3 gap-3">
+                    {RERANKERS.map((reranker) => (
+                      <button
+                        key={reranker.id}
+                        onClick={() => handlePreferenceChange('reranker', reranker.id)}
+                        className={`p-3 rounded-xl border-2 text-left transition-all duration-200 ${
+                          preferences.reranker === reranker.id
+                            ? 'border-primary-500 bg-primary-50'
+                            : 'border-neutral-200 hover:border-neutral-300'
+                        }`}
+                        aria-pressed={preferences.reranker === reranker.id}
+                        aria-label={`Reranking: ${reranker.name}`}
+                      >
+                        <span className="block text-sm font-medium">{reranker.name}</span>
+                        <span className="block text-xs text-neutral-500 mt-1">{reranker.description}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {preferences.llmProvider === 'openai-compatible' && (
+                  <div className="space-y-3">
+                    <div>
+                      <label htmlFor="llm-base-url" className="block text-sm font-medium text-medical-charcoal mb-1">
+                        Server URL
+                      </label>
+                      <input
+                        id="llm-base-url"
+                        type="url"
+                        value={preferences.llmBaseUrl}
+                        onChange={(e) => handlePreferenceChange('llmBaseUrl', e.target.value.trim())}
+                        placeholder="http://localhost:8080/v1"
+                        className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="llm-model" className="block text-sm font-medium text-medical-charcoal mb-1">
+                        Model
+                      </label>
+                      <input
+                        id="llm-model"
+                        type="text"
+                        value={preferences.llmModel}
+                        onChange={(e) => handlePreferenceChange('llmModel', e.target.value.trim())}
+                        placeholder="Server default"
+                        className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Cloud Sync Section */}
+              <div>
+                <h2 className="text-lg font-semibold text-medical-charcoal mb-4">Cloud Sync</h2>
+                <p className="text-sm text-neutral-600 mb-6">
+                  Sign in to keep your chat history in sync across devices
+                </p>
+
+                {user ? (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between p-4 bg-neutral-50 rounded-xl">
+                      <div className="min-w-0">
+                        <h3 className="font-medium text-medical-charcoal">Sync Chat History</h3>
+                        <p className="text-sm text-neutral-600 truncate">Signed in as {user.email ?? user.name ?? 'your account'}</p>
+                      </div>
+                      <button
+                        onClick={() => handlePreferenceChange('cloudSync', !preferences.cloudSync)}
+                        className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                          preferences.cloudSync ? 'bg-primary-500' : 'bg-neutral-300'
+                        }`}
+                        role="switch"
+                        aria-checked={preferences.cloudSync}
+                        aria-label="Sync chat history"
+                      >
+                        <span
+                          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            preferences.cloudSync ? 'translate-x-6' : 'translate-x-1'
+                          }`}
+                        />
+                      </button>
+                    </div>
+                    <button
+                      onClick={handleSignOut}
+                      className="w-full px-4 py-2 bg-neutral-100 hover:bg-neutral-200 text-neutral-700 rounded-lg transition-colors"
+                    >
+                      Sign Out
+                    </button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleSignIn} className="flex space-x-2">
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="you@hospital.org"
+                      aria-label="Email address"
+                      className="flex-1 px-3 py-2 border border-neutral-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!email.trim()}
+                      className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Send Link
+                    </button>
+                  </form>
+                )}
+                {authStatus && (
+                  <p className="text-sm text-neutral-600 mt-3" role="status">{authStatus}</p>
+                )}
               </div>
 
+              {/* Offline Knowledge Pack Section */}
+              <OfflinePackSection />
+
               {/* Data Management Section */}
               <div>
                 <h2 className="text-lg font-semibold text-medical-charcoal mb-4">Data Management</h2>
@@ -291,6 +600,60 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
                   Manage your chat history and exported data
                 </p>
 
+                {/* Export */}
+                <div className="space-y-3 mb-6">
+                  <label htmlFor="export-chat" className="block text-sm font-medium text-medical-charcoal">
+                    Export
+                  </label>
+                  <select
+                    id="export-chat"
+                    value={exportChatId}
+                    onChange={(e) => setExportChatId(e.target.value)}
+                    className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="all">All chats ({chats.length})</option>
+                    {chats.map(chat => (
+                      <option key={chat.id} value={chat.id}>{chat.title}</option>
+                    ))}
+                  </select>
+                  <div className="grid grid-cols-3 gap-3">
+                    {([
+                      { id: 'markdown', name: 'Markdown' },
+                      { id: 'pdf', name: 'PDF' },
+                      { id: 'json', name: 'JSON' }
+                    ] as Array<{ id: ExportFormat; name: string }>).map((format) => (
+                      <button
+                        key={format.id}
+                        onClick={() => handleExport(format.id)}
+                        disabled={chats.length === 0}
+                        className="px-3 py-2 bg-neutral-100 hover:bg-neutral-200 text-neutral-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                      >
+                        {format.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Import */}
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImport}
+                  className="hidden"
+                  aria-hidden="true"
+                  tabIndex={-1}
+                />
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="w-full p-4 mb-3 bg-neutral-50 hover:bg-neutral-100 border border-neutral-200 rounded-xl text-medical-charcoal font-medium transition-colors"
+                >
+                  Import Chats from JSON
+                </button>
+                {dataStatus && (
+                  <p className="text-sm text-neutral-600 mb-3" role="status">{dataStatus}</p>
+                )}
+
                 <button
                   onClick={() => {
                     if (confirm('Are you sure you want to clear all chat history? This action cannot be undone.')) {
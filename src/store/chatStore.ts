@@ -8,8 +8,18 @@ import {
   Citation, 
   Screen,
   ChatMode,
-  CommonQuestion 
+  User,
+  CommonQuestion,
+  PatientContext,
+  PendingQuestion
 } from '@/types';
+import { branchKey, getActiveLeafId, getParentId } from '@/utils/conversation';
+import { DEFAULT_LLM_PROVIDER } from '@/utils/llm';
+import { DEFAULT_EMBEDDING_PROVIDER } from '@/utils/embeddings';
+import { DEFAULT_RERANKER } from '@/utils/rerank';
+import { createIndexedDBStorage, isIndexedDBAvailable, readChatMessages } from './indexedDBStorage';
+import { mergeImportedChats } from '@/utils/chatExport';
+import { PERSISTED_STATE_VERSION, PersistedState, migratePersistedState, reviveDates } from './serialization';
 
 // Default user preferences
 const defaultPreferences: UserPreferences = {
@@ -21,6 +31,13 @@ const defaultPreferences: UserPreferences = {
   detailedResponses: true,
   includeReferences: true,
   clinicalFocus: false,
+  llmProvider: DEFAULT_LLM_PROVIDER,
+  llmBaseUrl: '',
+  llmModel: '',
+  embeddingProvider: DEFAULT_EMBEDDING_PROVIDER,
+  reranker: DEFAULT_RERANKER,
+  cloudSync: false,
+  preferredEdition: null,
 };
 
 // Common questions for welcome screen
@@ -59,13 +76,20 @@ interface ChatStore extends AppState {
   // Actions
   setCurrentScreen: (screen: Screen) => void;
   setCurrentChatId: (chatId: string | null) => void;
+  loadChatMessages: (chatId: string) => Promise<void>;
   
   // Chat actions
   createNewChat: (mode: ChatMode) => string;
-  addMessage: (chatId: string, message: Omit<Message, 'id' | 'timestamp'>) => void;
+  addMessage: (chatId: string, message: Omit<Message, 'id' | 'timestamp'>) => string;
   updateMessage: (chatId: string, messageId: string, updates: Partial<Message>) => void;
+  selectBranch: (chatId: string, messageId: string) => void;
+  removeMessage: (chatId: string, messageId: string) => void;
+  moveFollowUps: (chatId: string, questionId: string, answerId: string) => void;
+  setPatientContext: (chatId: string, context: PatientContext | undefined) => void;
   deleteChat: (chatId: string) => void;
   clearAllChats: () => void;
+  applyRemoteChats: (upserts: Chat[], deletedIds: string[]) => void;
+  importChats: (chats: Chat[]) => { added: number; updated: number; skipped: number };
   
   // UI actions
   setLoading: (loading: boolean) => void;
@@ -77,8 +101,14 @@ interface ChatStore extends AppState {
   // Preferences actions
   updatePreferences: (preferences: Partial<UserPreferences>) => void;
   
+  // Account actions
+  setUser: (user: User | null) => void;
+  
   // App state actions
   setOnlineStatus: (isOnline: boolean) => void;
+  queueQuestion: (chatId: string, messageId: string) => void;
+  updatePendingQuestion: (messageId: string, updates: Partial<PendingQuestion>) => void;
+  removePendingQuestion: (messageId: string) => void;
   setInstallPrompt: (event: any) => void;
   showInstallPromptAction: () => void;
   hideInstallPrompt: () => void;
@@ -105,6 +135,7 @@ export const useChatStore = create<ChatStore>()(
       user: null,
       preferences: defaultPreferences,
       isOnline: navigator.onLine,
+      pendingQuestions: [],
       installPromptEvent: null,
       showInstallPrompt: false,
 
@@ -115,6 +146,25 @@ export const useChatStore = create<ChatStore>()(
 
       setCurrentChatId: (chatId: string | null) => {
         set({ currentChatId: chatId });
+        if (chatId) void get().loadChatMessages(chatId);
+      },
+
+      // Message bodies are read from storage the first time a chat is opened
+      loadChatMessages: async (chatId: string) => {
+        if (get().getChatById(chatId)?.messagesLoaded !== false) return;
+
+        try {
+          const messages = await readChatMessages(chatId);
+          set(state => ({
+            chats: state.chats.map(chat =>
+              chat.id === chatId && chat.messagesLoaded === false
+                ? { ...chat, messages, messagesLoaded: true }
+                : chat
+            )
+          }));
+        } catch (error) {
+          console.error('Failed to load chat messages:', error);
+        }
       },
 
       // Chat management
@@ -148,9 +198,19 @@ export const useChatStore = create<ChatStore>()(
         set(state => ({
           chats: state.chats.map(chat => {
             if (chat.id === chatId) {
+              // Append to the active thread unless a parent was given explicitly (branching)
+              const parentId = messageData.parentId !== undefined
+                ? messageData.parentId
+                : getActiveLeafId(chat);
+              const branchedMessage = { ...message, parentId };
+
               const updatedChat = {
                 ...chat,
-                messages: [...chat.messages, message],
+                messages: [...chat.messages, branchedMessage],
+                branchSelections: {
+                  ...chat.branchSelections,
+                  [branchKey(parentId)]: message.id,
+                },
                 updatedAt: new Date(),
               };
 
@@ -164,6 +224,8 @@ export const useChatStore = create<ChatStore>()(
             return chat;
           })
         }));
+
+        return message.id;
       },
 
       updateMessage: (chatId: string, messageId: string, updates: Partial<Message>) => {
@@ -183,6 +245,94 @@ export const useChatStore = create<ChatStore>()(
         }));
       },
 
+      selectBranch: (chatId: string, messageId: string) => {
+        set(state => ({
+          chats: state.chats.map(chat => {
+            if (chat.id === chatId) {
+              return {
+                ...chat,
+                branchSelections: {
+                  ...chat.branchSelections,
+                  [branchKey(getParentId(chat, messageId))]: messageId,
+                },
+                // The selected branch is synced, so the newer selection must win
+                updatedAt: new Date(),
+              };
+            }
+            return chat;
+          })
+        }));
+      },
+
+      // Drop a message from the tree; its replies move up to its parent
+      removeMessage: (chatId: string, messageId: string) => {
+        set(state => ({
+          chats: state.chats.map(chat => {
+            if (chat.id !== chatId) return chat;
+
+            const parentId = getParentId(chat, messageId);
+            const replies = chat.messages.filter(msg => getParentId(chat, msg.id) === messageId);
+            const branchSelections = { ...chat.branchSelections };
+            const selectedReply = branchSelections[branchKey(messageId)];
+            delete branchSelections[branchKey(messageId)];
+            if (branchSelections[branchKey(parentId)] === messageId) {
+              if (replies.length > 0) {
+                branchSelections[branchKey(parentId)] = selectedReply ?? replies[replies.length - 1].id;
+              } else {
+                delete branchSelections[branchKey(parentId)];
+              }
+            }
+
+            return {
+              ...chat,
+              messages: chat.messages
+                .filter(msg => msg.id !== messageId)
+                .map(msg => replies.includes(msg) ? { ...msg, parentId } : msg),
+              branchSelections,
+              updatedAt: new Date(),
+            };
+          }),
+          pendingQuestions: state.pendingQuestions.filter(question => question.messageId !== messageId)
+        }));
+      },
+
+      // Questions queued after an unanswered question continue from its answer once there is one
+      moveFollowUps: (chatId: string, questionId: string, answerId: string) => {
+        set(state => ({
+          chats: state.chats.map(chat => {
+            if (chat.id !== chatId) return chat;
+
+            const followUps = chat.messages.filter(msg => msg.role === 'user' && getParentId(chat, msg.id) === questionId);
+            if (followUps.length === 0) return chat;
+
+            return {
+              ...chat,
+              messages: chat.messages.map(msg => followUps.includes(msg) ? { ...msg, parentId: answerId } : msg),
+              branchSelections: {
+                ...chat.branchSelections,
+                [branchKey(questionId)]: answerId,
+                [branchKey(answerId)]: followUps[followUps.length - 1].id,
+              },
+            };
+          })
+        }));
+      },
+
+      setPatientContext: (chatId: string, context: PatientContext | undefined) => {
+        set(state => ({
+          chats: state.chats.map(chat => {
+            if (chat.id === chatId) {
+              return {
+                ...chat,
+                patientContext: context,
+                updatedAt: new Date(),
+              };
+            }
+            return chat;
+          })
+        }));
+      },
+
       deleteChat: (chatId: string) => {
         set(state => {
           const newChats = state.chats.filter(chat => chat.id !== chatId);
@@ -190,6 +340,7 @@ export const useChatStore = create<ChatStore>()(
           
           return {
             chats: newChats,
+            pendingQuestions: state.pendingQuestions.filter(question => question.chatId !== chatId),
             currentChatId: newCurrentChatId,
             currentScreen: newCurrentChatId ? 'chat' : 'welcome'
           };
@@ -199,11 +350,38 @@ export const useChatStore = create<ChatStore>()(
       clearAllChats: () => {
         set({
           chats: [],
+          pendingQuestions: [],
           currentChatId: null,
           currentScreen: 'welcome'
         });
       },
 
+      // Merge chats pulled from cloud sync, replacing local copies with the same id
+      applyRemoteChats: (upserts: Chat[], deletedIds: string[]) => {
+        const removed = new Set([...deletedIds, ...upserts.map(chat => chat.id)]);
+
+        set(state => {
+          const chats = [...upserts, ...state.chats.filter(chat => !removed.has(chat.id))]
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+          const currentRemoved = state.currentChatId !== null && !chats.some(chat => chat.id === state.currentChatId);
+
+          return {
+            chats,
+            pendingQuestions: state.pendingQuestions.filter(question => chats.some(chat => chat.id === question.chatId)),
+            ...(currentRemoved && {
+              currentChatId: null,
+              currentScreen: state.currentScreen === 'chat' ? 'welcome' : state.currentScreen
+            })
+          };
+        });
+      },
+
+      importChats: (imported: Chat[]) => {
+        const { chats, added, updated, skipped } = mergeImportedChats(get().chats, imported);
+        set({ chats });
+        return { added, updated, skipped };
+      },
+
       // UI state management
       setLoading: (loading: boolean) => {
         set({ isLoading: loading });
@@ -238,11 +416,36 @@ export const useChatStore = create<ChatStore>()(
         }));
       },
 
+      // Account management
+      setUser: (user: User | null) => {
+        set({ user });
+      },
+
       // App state management
       setOnlineStatus: (isOnline: boolean) => {
         set({ isOnline });
       },
 
+      queueQuestion: (chatId: string, messageId: string) => {
+        set(state => ({
+          pendingQuestions: [...state.pendingQuestions, { chatId, messageId, status: 'queued' }]
+        }));
+      },
+
+      updatePendingQuestion: (messageId: string, updates: Partial<PendingQuestion>) => {
+        set(state => ({
+          pendingQuestions: state.pendingQuestions.map(question =>
+            question.messageId === messageId ? { ...question, ...updates } : question
+          )
+        }));
+      },
+
+      removePendingQuestion: (messageId: string) => {
+        set(state => ({
+          pendingQuestions: state.pendingQuestions.filter(question => question.messageId !== messageId)
+        }));
+      },
+
       setInstallPrompt: (event: any) => {
         set({ 
           installPromptEvent: event,
@@ -282,19 +485,42 @@ export const useChatStore = create<ChatStore>()(
           chat.title.toLowerCase().includes(searchTerm) ||
           chat.messages.some(msg => 
             msg.content.toLowerCase().includes(searchTerm)
-          )
+          ) ||
+          // Chats never opened this session only have their stored preview
+          Boolean(chat.messagesLoaded === false && chat.summary?.lastMessage.toLowerCase().includes(searchTerm))
         );
       },
     }),
     {
       name: 'nelson-gpt-store',
-      storage: createJSONStorage(() => localStorage),
-      partialize: (state) => ({
+      version: PERSISTED_STATE_VERSION,
+      storage: isIndexedDBAvailable()
+        ? createIndexedDBStorage<PersistedState>()
+        : createJSONStorage<PersistedState>(() => localStorage, { reviver: reviveDates }),
+      migrate: migratePersistedState,
+      partialize: (state): PersistedState => ({
         // Only persist certain parts of the state
         chats: state.chats,
         preferences: state.preferences,
         currentChatId: state.currentChatId,
+        pendingQuestions: state.pendingQuestions,
       }),
+      // Fill in preferences added since the state was persisted
+      merge: (persistedState, currentState) => {
+        const persisted = (persistedState ?? {}) as Partial<ChatStore>;
+        return {
+          ...currentState,
+          ...persisted,
+          preferences: { ...defaultPreferences, ...persisted.preferences },
+          // A question still running when the app closed is asked again
+          pendingQuestions: (persisted.pendingQuestions ?? []).map(question =>
+            question.status === 'running' ? { ...question, status: 'queued' } : question
+          ),
+        };
+      },
+      onRehydrateStorage: () => (state) => {
+        if (state?.currentChatId) void state.loadChatMessages(state.currentChatId);
+      },
     }
   )
 );
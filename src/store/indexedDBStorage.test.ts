@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageValue } from 'zustand/middleware';
+import { Chat } from '@/types';
+import { PersistedState } from './serialization';
+
+const STORE_NAME = 'nelson-gpt-store';
+
+const chat: Chat = {
+  id: 'chat-1',
+  title: 'Bronchiolitis',
+  mode: 'clinical',
+  createdAt: new Date('2024-03-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-03-01T10:05:00.000Z'),
+  messages: [
+    { id: 'msg-1', role: 'user', content: 'Is salbutamol indicated?', timestamp: new Date('2024-03-01T10:00:00.000Z'), parentId: null },
+    { id: 'msg-2', role: 'assistant', content: 'Not routinely.', timestamp: new Date('2024-03-01T10:05:00.000Z'), parentId: 'msg-1' },
+  ],
+};
+
+const snapshot = (chats: Chat[]) => ({
+  state: { chats, currentChatId: chats[0]?.id ?? null, preferences: { theme: 'dark' } },
+  version: 1,
+}) as unknown as StorageValue<PersistedState>;
+
+// The module caches its connection, so every test gets a fresh database and module
+async function loadStorage() {
+  vi.resetModules();
+  return import('./indexedDBStorage');
+}
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  localStorage.clear();
+});
+
+describe('createIndexedDBStorage', () => {
+  it('rehydrates a saved snapshot with messages loaded on demand', async () => {
+    const { createIndexedDBStorage, readChatMessages } = await loadStorage();
+    const storage = createIndexedDBStorage<PersistedState>();
+
+    expect(await storage.getItem(STORE_NAME)).toBeNull();
+    await storage.setItem(STORE_NAME, snapshot([chat]));
+
+    const restored = await createIndexedDBStorage<PersistedState>().getItem(STORE_NAME);
+    const [restoredChat] = restored!.state.chats;
+
+    expect(restored!.state.currentChatId).toBe('chat-1');
+    expect(restored!.state.preferences).toEqual({ theme: 'dark' });
+    expect(restoredChat).toMatchObject({ id: 'chat-1', title: 'Bronchiolitis', messages: [], messagesLoaded: false });
+    expect(restoredChat.createdAt).toEqual(chat.createdAt);
+    expect(restoredChat.summary).toEqual({ lastMessage: 'Not routinely.', messageCount: 2 });
+    expect(await readChatMessages('chat-1')).toEqual(chat.messages);
+  });
+
+  it('deletes chats dropped from the state', async () => {
+    const { createIndexedDBStorage, readChatMessages } = await loadStorage();
+    const storage = createIndexedDBStorage<PersistedState>();
+    const other: Chat = { ...chat, id: 'chat-2', title: 'Croup' };
+
+    await storage.getItem(STORE_NAME);
+    await storage.setItem(STORE_NAME, snapshot([chat, other]));
+    await storage.setItem(STORE_NAME, snapshot([other]));
+
+    const restored = await createIndexedDBStorage<PersistedState>().getItem(STORE_NAME);
+
+    expect(restored!.state.chats.map(restoredChat => restoredChat.id)).toEqual(['chat-2']);
+    expect(await readChatMessages('chat-1')).toEqual([]);
+  });
+
+  it('moves state saved in localStorage by earlier versions into IndexedDB', async () => {
+    const { createIndexedDBStorage, readChatMessages } = await loadStorage();
+    localStorage.setItem(STORE_NAME, JSON.stringify(snapshot([chat])));
+
+    const migrated = await createIndexedDBStorage<PersistedState>().getItem(STORE_NAME);
+
+    expect(migrated!.state.chats).toEqual([chat]);
+    expect(localStorage.getItem(STORE_NAME)).toBeNull();
+
+    const restored = await createIndexedDBStorage<PersistedState>().getItem(STORE_NAME);
+    expect(restored!.state.chats[0]).toMatchObject({ id: 'chat-1', messagesLoaded: false });
+    expect(await readChatMessages('chat-1')).toEqual(chat.messages);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * IndexedDB storage for the persisted chat store
+ * Chats and their message bodies live in separate object stores so the history
+ * list can load without deserializing every conversation; only changed chats are written.
+ * The same database holds the offline knowledge pack (see utils/offlinePack).
+ */
+
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+import { Chat, ChatSummary, Message } from '@/types';
+import { getActiveThread } from '@/utils/conversation';
+import { reviveDates, reviveMessage } from './serialization';
+
+const DB_NAME = 'nelson-gpt';
+const META_STORE = 'meta';
+const CHATS_STORE = 'chats';
+const MESSAGES_STORE = 'messages';
+export const PACKS_STORE = 'packs';
+export const PACK_CHUNKS_STORE = 'packChunks';
+
+type ChatRecord = Omit<Chat, 'messages' | 'messagesLoaded'>;
+
+interface MessagesRecord {
+  chatId: string;
+  messages: Message[];
+}
+
+/**
+ * Schema upgrades, one per database version. Never edit a shipped step; append a new one.
+ */
+const SCHEMA_MIGRATIONS: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // v1: persisted state, chat metadata and message bodies keyed by chat
+  (db) => {
+    db.createObjectStore(META_STORE);
+    db.createObjectStore(CHATS_STORE, { keyPath: 'id' });
+    db.createObjectStore(MESSAGES_STORE, { keyPath: 'chatId' });
+  },
+  // v2: offline knowledge pack, installed chapters and their embedded chunks
+  (db) => {
+    db.createObjectStore(PACKS_STORE, { keyPath: 'id' });
+    db.createObjectStore(PACK_CHUNKS_STORE, { keyPath: 'id' }).createIndex('packId', 'packId');
+  },
+];
+
+export const DB_VERSION = SCHEMA_MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        SCHEMA_MIGRATIONS[version](request.result, transaction);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade the schema; reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+  }).catch(error => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Last message and length of the active thread, shown in the history list
+ */
+export function summarizeChat(chat: Chat): ChatSummary {
+  const thread = getActiveThread(chat);
+  return {
+    lastMessage: thread.length > 0 ? thread[thread.length - 1].content.slice(0, 200) : '',
+    messageCount: thread.length,
+  };
+}
+
+function toChatRecord(chat: Chat): ChatRecord {
+  const { messages, messagesLoaded, ...record } = chat;
+  return { ...record, summary: messagesLoaded === false ? chat.summary : summarizeChat(chat) };
+}
+
+/**
+ * Load the message bodies of one chat
+ * @param chatId - Chat whose messages to read
+ */
+export async function readChatMessages(chatId: string): Promise<Message[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(MESSAGES_STORE, 'readonly');
+  const record = await requestToPromise<MessagesRecord | undefined>(transaction.objectStore(MESSAGES_STORE).get(chatId));
+  // Bodies saved before versioned state may still hold ISO string timestamps
+  return (record?.messages ?? []).map(reviveMessage);
+}
+
+/**
+ * Whether IndexedDB can be used (unavailable in some private browsing modes)
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * zustand persist storage backed by IndexedDB
+ *
+ * The first read migrates state left under the same key in localStorage by
+ * earlier versions. Chats are returned without messages (`messagesLoaded: false`);
+ * load them with `readChatMessages` when a chat is opened.
+ */
+export function createIndexedDBStorage<S extends { chats: Chat[] }>(): PersistStorage<S> {
+  // Chats as last read or written, compared by reference to find what changed
+  let written: Map<string, Chat> | null = null;
+
+  const writeState = async (name: string, value: StorageValue<S>): Promise<void> => {
+    const previous = written ?? new Map<string, Chat>();
+    const current = new Map(value.state.chats.map(chat => [chat.id, chat]));
+    written = current;
+
+    const db = await openDatabase();
+    const transaction = db.transaction([META_STORE, CHATS_STORE, MESSAGES_STORE], 'readwrite');
+    const chatsStore = transaction.objectStore(CHATS_STORE);
+    const messagesStore = transaction.objectStore(MESSAGES_STORE);
+
+    transaction.objectStore(META_STORE).put({ ...value, state: { ...value.state, chats: undefined } }, name);
+
+    for (const chat of current.values()) {
+      if (previous.get(chat.id) === chat) continue;
+      chatsStore.put(toChatRecord(chat));
+      // Bodies that were never loaded are still intact in the database
+      if (chat.messagesLoaded !== false) {
+        messagesStore.put({ chatId: chat.id, messages: chat.messages } satisfies MessagesRecord);
+      }
+    }
+
+    for (const chatId of previous.keys()) {
+      if (!current.has(chatId)) {
+        chatsStore.delete(chatId);
+        messagesStore.delete(chatId);
+      }
+    }
+
+    await transactionDone(transaction);
+  };
+
+  const migrateFromLocalStorage = async (name: string): Promise<StorageValue<S> | null> => {
+    const raw = localStorage.getItem(name);
+    if (!raw) {
+      written = new Map();
+      return null;
+    }
+
+    const value = JSON.parse(raw, reviveDates) as StorageValue<S>;
+    await writeState(name, value);
+    localStorage.removeItem(name);
+    return value;
+  };
+
+  return {
+    getItem: async (name) => {
+      try {
+        const db = await openDatabase();
+        const transaction = db.transaction([META_STORE, CHATS_STORE], 'readonly');
+        const [meta, records] = await Promise.all([
+          requestToPromise<StorageValue<S> | undefined>(transaction.objectStore(META_STORE).get(name)),
+          requestToPromise<ChatRecord[]>(transaction.objectStore(CHATS_STORE).getAll()),
+        ]);
+
+        if (!meta) return await migrateFromLocalStorage(name);
+
+        const chats: Chat[] = records
+          .map(record => ({ ...record, messages: [], messagesLoaded: false }))
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        written = new Map(chats.map(chat => [chat.id, chat]));
+
+        return { ...meta, state: { ...meta.state, chats } };
+      } catch (error) {
+        console.error('Failed to read chats from IndexedDB:', error);
+        throw error;
+      }
+    },
+
+    setItem: async (name, value) => {
+      // Nothing to save before the persisted state has been read
+      if (!written) return;
+
+      try {
+        await writeState(name, value);
+      } catch (error) {
+        console.error('Failed to save chats to IndexedDB:', error);
+      }
+    },
+
+    removeItem: async (name) => {
+      written = new Map();
+      const db = await openDatabase();
+      const transaction = db.transaction([META_STORE, CHATS_STORE, MESSAGES_STORE], 'readwrite');
+      transaction.objectStore(META_STORE).delete(name);
+      transaction.objectStore(CHATS_STORE).clear();
+      transaction.objectStore(MESSAGES_STORE).clear();
+      await transactionDone(transaction);
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Chat } from '@/types';
+import { PERSISTED_STATE_VERSION, PersistedState, migratePersistedState, reviveDates } from './serialization';
+
+const chat: Chat = {
+  id: 'chat-1',
+  title: 'Asthma',
+  mode: 'academic',
+  createdAt: new Date('2024-03-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-03-01T10:05:00.000Z'),
+  messages: [
+    { id: 'msg-1', role: 'user', content: 'First-line controller?', timestamp: new Date('2024-03-01T10:00:00.000Z'), parentId: null },
+    { id: 'msg-2', role: 'assistant', content: 'Inhaled corticosteroids', timestamp: new Date('2024-03-01T10:05:00.000Z'), parentId: 'msg-1' },
+  ],
+};
+
+describe('reviveDates', () => {
+  it('restores Date fields in a JSON round trip', () => {
+    const revived = JSON.parse(JSON.stringify(chat), reviveDates) as Chat;
+
+    expect(revived).toEqual(chat);
+    expect(revived.createdAt).toBeInstanceOf(Date);
+    expect(revived.messages[1].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('leaves other strings alone, even when they look like dates', () => {
+    const revived = JSON.parse(JSON.stringify({ title: '2024-03-01T10:00:00.000Z', createdAt: 'yesterday' }), reviveDates);
+
+    expect(revived).toEqual({ title: '2024-03-01T10:00:00.000Z', createdAt: 'yesterday' });
+  });
+});
+
+describe('migratePersistedState', () => {
+  it('revives dates saved as strings before versioning', () => {
+    const legacy = JSON.parse(JSON.stringify({ chats: [chat], currentChatId: 'chat-1' }));
+
+    const state = migratePersistedState(legacy, 0);
+
+    expect(state.chats).toEqual([chat]);
+    expect(state.currentChatId).toBe('chat-1');
+  });
+
+  it('replaces invalid timestamps instead of keeping Invalid Date', () => {
+    const legacy = { chats: [{ ...chat, createdAt: 'not a date', messages: [] }] };
+
+    const [migrated] = migratePersistedState(legacy, 0).chats;
+
+    expect(Number.isNaN(migrated.createdAt.getTime())).toBe(false);
+  });
+
+  it('starts an empty question queue for state saved before it existed', () => {
+    const state = migratePersistedState({ chats: [chat], currentChatId: 'chat-1' }, 1);
+
+    expect(state.pendingQuestions).toEqual([]);
+    expect(state.chats).toEqual([chat]);
+  });
+
+  it('returns current state unchanged', () => {
+    const state = {
+      chats: [chat],
+      currentChatId: null,
+      pendingQuestions: [{ chatId: 'chat-1', messageId: 'message-1', status: 'queued' }]
+    } as unknown as PersistedState;
+
+    expect(migratePersistedState(state, PERSISTED_STATE_VERSION)).toEqual(state);
+  });
+});
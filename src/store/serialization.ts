@@ -0,0 +1,66 @@
+/**
+ * Serialization of the persisted chat store
+ * JSON turns Dates into ISO strings; these helpers turn them back and upgrade
+ * state saved by older versions of the app.
+ */
+
+import { AppState, Chat, Message } from '@/types';
+
+export type PersistedState = Pick<AppState, 'chats' | 'preferences' | 'currentChatId' | 'pendingQuestions'>;
+
+/**
+ * Version of the persisted state shape. Bump it and add a step to `migratePersistedState`
+ * whenever the shape changes.
+ */
+export const PERSISTED_STATE_VERSION = 2;
+
+const DATE_FIELDS = new Set(['timestamp', 'createdAt', 'updatedAt']);
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+/**
+ * `JSON.parse` reviver restoring the store's Date fields
+ */
+export function reviveDates(key: string, value: unknown): unknown {
+  return DATE_FIELDS.has(key) && typeof value === 'string' && ISO_DATE_PATTERN.test(value)
+    ? new Date(value)
+    : value;
+}
+
+function toDate(value: Date | string | number | undefined): Date {
+  const date = value instanceof Date ? value : new Date(value ?? Date.now());
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
+
+export function reviveMessage(message: Message): Message {
+  return { ...message, timestamp: toDate(message.timestamp) };
+}
+
+export function reviveChat(chat: Chat): Chat {
+  return {
+    ...chat,
+    createdAt: toDate(chat.createdAt),
+    updatedAt: toDate(chat.updatedAt),
+    messages: chat.messages.map(reviveMessage),
+  };
+}
+
+/**
+ * Upgrade persisted state from an older version
+ * @param persisted - State as read from storage
+ * @param version - Version it was saved with (0 for state saved before versioning)
+ */
+export function migratePersistedState(persisted: unknown, version: number): PersistedState {
+  let state = (persisted ?? {}) as PersistedState;
+
+  // v0 stored Dates as ISO strings
+  if (version < 1) {
+    state = { ...state, chats: (state.chats ?? []).map(reviveChat) };
+  }
+
+  // v2 added the queue of questions asked offline
+  if (version < 2) {
+    state = { ...state, pendingQuestions: [] };
+  }
+
+  return state;
+}
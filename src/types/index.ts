@@ -7,17 +7,36 @@ export interface Message {
   timestamp: Date;
   citations?: Citation[];
   isStreaming?: boolean;
+  interrupted?: boolean; // Generation was stopped before completion
+  parentId?: string | null; // Previous message in the conversation tree (null for the first)
+  verification?: CitationVerification;
+  route?: RouteDecision; // How the question was handled
+}
+
+// Question asked without a connection, answered once the device is back online
+export interface PendingQuestion {
+  chatId: string;
+  messageId: string; // User message awaiting its answer
+  status: 'queued' | 'running' | 'failed';
+  error?: string; // Why the last attempt failed
 }
 
 export interface Citation {
   id: string;
   chapter: string;
+  edition?: NelsonEdition; // Omitted when the source does not record it
   pageRange: string;
   title: string;
   excerpt: string;
   confidence: 'high' | 'medium' | 'low';
 }
 
+export interface CitationVerification {
+  supportedChapters: string[];
+  unsupportedChapters: string[]; // Cited by the model but not among retrieved chunks
+  groundingScore: number; // 0-1
+}
+
 export interface Chat {
   id: string;
   title: string;
@@ -25,6 +44,26 @@ export interface Chat {
   createdAt: Date;
   updatedAt: Date;
   mode: 'academic' | 'clinical';
+  branchSelections?: Record<string, string>; // Selected child message per parent
+  patientContext?: PatientContext; // Omitted when the clinician left it blank
+  messagesLoaded?: boolean; // False until the message bodies are read from storage
+  summary?: ChatSummary; // Stored preview, used while messages are not loaded
+}
+
+export interface ChatSummary {
+  lastMessage: string;
+  messageCount: number;
+}
+
+export type AgeUnit = 'days' | 'weeks' | 'months' | 'years';
+
+export type PatientSex = 'male' | 'female';
+
+export interface PatientContext {
+  age?: { value: number; unit: AgeUnit };
+  weightKg?: number;
+  sex?: PatientSex;
+  history?: string; // Relevant history, e.g. "ex-28 week preterm, VSD"
 }
 
 export interface User {
@@ -43,8 +82,21 @@ export interface UserPreferences {
   detailedResponses: boolean;
   includeReferences: boolean;
   clinicalFocus: boolean;
+  llmProvider: LLMProviderId;
+  llmBaseUrl: string; // Empty uses the configured default
+  llmModel: string; // Empty uses the configured default
+  embeddingProvider: EmbeddingProviderId;
+  reranker: RerankerId;
+  cloudSync: boolean; // Sync chat history to Supabase while signed in
+  preferredEdition: NelsonEdition | null; // Retrieval is limited to this edition; null searches all
 }
 
+/**
+ * Editions of the Nelson Textbook of Pediatrics. Chapter numbers differ
+ * between editions, so a chapter is only meaningful together with its edition.
+ */
+export type NelsonEdition = 20 | 21 | 22;
+
 export interface AppState {
   // Chat state
   currentChatId: string | null;
@@ -53,7 +105,7 @@ export interface AppState {
   isStreaming: boolean;
   
   // UI state
-  currentScreen: 'splash' | 'welcome' | 'chat' | 'history' | 'settings' | 'profile';
+  currentScreen: 'splash' | 'welcome' | 'chat' | 'history' | 'dosing' | 'settings' | 'profile';
   showSettings: boolean;
   showCitationModal: boolean;
   selectedCitation: Citation | null;
@@ -64,6 +116,7 @@ export interface AppState {
   
   // App state
   isOnline: boolean;
+  pendingQuestions: PendingQuestion[];
   installPromptEvent: any;
   showInstallPrompt: boolean;
 }
@@ -74,10 +127,15 @@ export interface EmbeddingResult {
   text: string;
   metadata: {
     chapter: string;
+    edition?: NelsonEdition;
     page: number;
     section: string;
     title: string;
   };
+  similarity?: number; // Cosine similarity to the query; 0 for keyword-only hits
+  keywordMatch?: boolean; // Found by keyword search, so exempt from the similarity threshold
+  fusionScore?: number; // Reciprocal rank fusion score in hybrid retrieval
+  rerankScore?: number; // Cross-encoder relevance, when a reranker ran
 }
 
 export interface VectorSearchResult {
@@ -85,6 +143,7 @@ export interface VectorSearchResult {
   content: string;
   metadata: {
     chapter: string;
+    edition?: NelsonEdition;
     pageRange: string;
     section: string;
     title: string;
@@ -121,6 +180,30 @@ export interface MistralConfig {
   temperature: number;
 }
 
+export type LLMProviderId = 'mistral' | 'openai-compatible';
+
+export type EmbeddingProviderId = 'huggingface' | 'local';
+
+export type RerankerId = 'none' | 'remote' | 'local';
+
+export type QueryRoute = 'dosing' | 'calculator' | 'rag' | 'out-of-scope';
+
+export type CalculatorId = 'maintenance-fluids' | 'bsa' | 'bmi';
+
+export interface RouteDecision {
+  route: QueryRoute;
+  reason: string;
+  calculator?: CalculatorId;
+}
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  baseUrl?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
 // Component prop types
 export interface MessageBubbleProps {
   message: Message;
@@ -130,6 +213,7 @@ export interface MessageBubbleProps {
 export interface CitationBadgeProps {
   citation: Citation;
   onClick: (citation: Citation) => void;
+  unsupported?: boolean;
 }
 
 export interface InputDockProps {
@@ -150,7 +234,7 @@ export type ResponseStyle = 'concise' | 'detailed';
 export type CitationFormat = 'inline' | 'footnotes';
 export type ColorPalette = 'amber' | 'blue' | 'orange' | 'gray';
 export type ChatMode = 'academic' | 'clinical';
-export type Screen = 'splash' | 'welcome' | 'chat' | 'history' | 'settings' | 'profile';
+export type Screen = 'splash' | 'welcome' | 'chat' | 'history' | 'dosing' | 'settings' | 'profile';
 
 // Error types
 export interface AppError {
@@ -0,0 +1,152 @@
+/**
+ * Answering a question in a chat
+ * Runs the RAG pipeline for a user message and streams the answer into a new
+ * assistant message beneath it. Used by the chat screen and the offline question queue.
+ */
+
+import { Citation, CitationVerification, Message, RouteDecision } from '@/types';
+import { useChatStore } from '../store/chatStore';
+import { getThreadTo } from './conversation';
+import { ConversationTurn, RAGEvent, getRAGConfig, ragPipeline } from './rag';
+import { throttle } from './throttle';
+
+// Minimum interval between streamed store writes (each write is persisted)
+const STREAM_UPDATE_INTERVAL_MS = 100;
+
+export interface AnswerOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: RAGEvent) => void; // Pipeline progress, e.g. for the status steps
+}
+
+export interface AnswerOutcome {
+  assistantId: string;
+  status: 'answered' | 'interrupted' | 'failed';
+  error?: string;
+}
+
+// Chats with an answer being generated; each chat streams one answer at a time
+const answeringChats = new Set<string>();
+
+/**
+ * Whether an answer is being generated in a chat right now
+ * @param chatId - Chat to check
+ */
+export function isAnswering(chatId: string): boolean {
+  return answeringChats.has(chatId);
+}
+
+const toHistory = (messages: Message[]): ConversationTurn[] =>
+  messages
+    .filter(message => !message.isStreaming && message.content.trim())
+    .map(({ role, content }) => ({ role, content }));
+
+/**
+ * Answer a user message with the current preferences
+ * @param chatId - Chat holding the question
+ * @param questionId - User message to answer; the messages above it are the history
+ * @param options - Abort signal and progress callback
+ * @returns Id of the new assistant message and how the answer ended
+ */
+export async function answerQuestion(chatId: string, questionId: string, options: AnswerOptions = {}): Promise<AnswerOutcome> {
+  const { signal, onEvent } = options;
+  const { getChatById, addMessage, updateMessage, moveFollowUps, preferences } = useChatStore.getState();
+  const chat = getChatById(chatId);
+  const question = chat?.messages.find(message => message.id === questionId);
+  if (!chat || !question) {
+    throw new Error('The question is no longer in this chat');
+  }
+  if (answeringChats.has(chatId)) {
+    throw new Error('An answer is already being generated in this chat');
+  }
+
+  // Create the assistant bubble up front so tokens have somewhere to land
+  const assistantId = addMessage(chatId, {
+    role: 'assistant',
+    content: '',
+    isStreaming: true,
+    parentId: questionId
+  });
+  moveFollowUps(chatId, questionId, assistantId);
+
+  const pushContent = throttle((content: string) => {
+    updateMessage(chatId, assistantId, { content });
+  }, STREAM_UPDATE_INTERVAL_MS);
+
+  let acc = '';
+  let citations: Citation[] = [];
+  let errorMessage: string | null = null;
+  let verification: CitationVerification | undefined;
+  let route: RouteDecision | undefined;
+
+  answeringChats.add(chatId);
+  try {
+    const ragConfig = getRAGConfig({
+      detailedResponses: preferences.detailedResponses,
+      includeReferences: preferences.includeReferences,
+      clinicalFocus: preferences.clinicalFocus,
+      vectorProvider: 'mongodb',
+      llmProvider: preferences.llmProvider,
+      llmBaseUrl: preferences.llmBaseUrl,
+      llmModel: preferences.llmModel,
+      embeddingProvider: preferences.embeddingProvider,
+      reranker: preferences.reranker,
+      preferredEdition: preferences.preferredEdition
+    });
+
+    for await (const evt of ragPipeline(question.content, chat.mode, ragConfig, {
+      signal,
+      history: toHistory(getThreadTo(chat, questionId)),
+      patientContext: chat.patientContext
+    })) {
+      onEvent?.(evt);
+
+      switch (evt.type) {
+        case 'token':
+          acc += evt.content;
+          pushContent(acc);
+          break;
+        case 'route':
+          route = evt.route;
+          break;
+        case 'citations':
+          citations = evt.citations;
+          break;
+        case 'complete':
+          if (evt.result.citations.length > 0) citations = evt.result.citations;
+          verification = evt.result.verification;
+          break;
+        case 'error':
+          errorMessage = evt.message;
+          break;
+      }
+    }
+
+    pushContent.cancel();
+    updateMessage(chatId, assistantId, {
+      content: acc || errorMessage || '',
+      citations,
+      verification,
+      route,
+      isStreaming: false,
+      ...(signal?.aborted && { interrupted: true })
+    });
+
+    if (signal?.aborted) return { assistantId, status: 'interrupted' };
+    return !acc && errorMessage
+      ? { assistantId, status: 'failed', error: errorMessage }
+      : { assistantId, status: 'answered' };
+  } catch (e) {
+    pushContent.cancel();
+    if (signal?.aborted) {
+      updateMessage(chatId, assistantId, { content: acc, citations, isStreaming: false, interrupted: true });
+      return { assistantId, status: 'interrupted' };
+    }
+
+    updateMessage(chatId, assistantId, { content: acc || 'Sorry, I could not generate a response.', citations, isStreaming: false });
+    return acc
+      ? { assistantId, status: 'answered' }
+      : { assistantId, status: 'failed', error: e instanceof Error ? e.message : 'Unknown error' };
+  } finally {
+    answeringChats.delete(chatId);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * API routing for Nelson-GPT
+ * direct: the browser calls Mistral, Hugging Face and MongoDB with VITE_* keys
+ * proxy: the browser calls the backend proxy (backend/proxy), which holds the keys
+ */
+
+export type ApiMode = 'direct' | 'proxy';
+
+export const API_MODE: ApiMode = import.meta.env.VITE_API_MODE === 'proxy' ? 'proxy' : 'direct';
+
+export const isProxyMode = API_MODE === 'proxy';
+
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/+$/, '');
+
+/**
+ * Build a URL on the backend proxy
+ * @param path - Route path, e.g. /api/embed
+ */
+export function proxyUrl(path: string): string {
+  return `${API_BASE_URL}${path}`;
+}
+
+/**
+ * Authorization header for the proxy: the signed-in user's Supabase access token
+ * The proxy refuses API calls without one unless it runs with ALLOW_ANONYMOUS.
+ */
+export async function proxyAuthHeaders(): Promise<Record<string, string>> {
+  const { supabase } = await import('./supabase');
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+/**
+ * POST a JSON body to the backend proxy and return the parsed response
+ * @param path - Route path, e.g. /api/search
+ * @param body - Request payload
+ * @param signal - Optional signal to abort the request
+ */
+export async function postToProxy<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(proxyUrl(path), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await proxyAuthHeaders()) },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(`Proxy error: ${response.status} - ${errorData.error || response.statusText}`);
+  }
+
+  return response.json();
+}
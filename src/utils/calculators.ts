@@ -0,0 +1,140 @@
+/**
+ * Bedside calculators the chat router can answer directly
+ * Maintenance fluids (Holliday-Segar), body surface area (Mosteller) and BMI
+ */
+
+import { CalculatorId, PatientContext } from '../types';
+import { MAX_WEIGHT_KG, extractWeightKg } from './dosing';
+
+export interface CalculatorDefinition {
+  id: CalculatorId;
+  name: string;
+  needsHeight: boolean;
+  pattern: RegExp;
+}
+
+export const CALCULATORS: CalculatorDefinition[] = [
+  {
+    id: 'maintenance-fluids',
+    name: 'Maintenance fluids',
+    needsHeight: false,
+    pattern: /\b(maintenance (?:iv )?fluids?|holliday[- ]segar|4[- ]2[- ]1 rule|fluid requirements?)\b/i,
+  },
+  {
+    id: 'bsa',
+    name: 'Body surface area',
+    needsHeight: true,
+    pattern: /\b(bsa|body surface area|mosteller)\b/i,
+  },
+  {
+    id: 'bmi',
+    name: 'Body mass index',
+    needsHeight: true,
+    pattern: /\b(bmi|body mass index)\b/i,
+  },
+];
+
+const MAX_HEIGHT_CM = 220;
+
+/**
+ * The calculator a question asks for, if any
+ */
+export function detectCalculator(question: string): CalculatorDefinition | undefined {
+  return CALCULATORS.find(calculator => calculator.pattern.test(question));
+}
+
+/**
+ * Height stated in a question, e.g. "110 cm" or "1.1 m"
+ */
+export function extractHeightCm(question: string): number | undefined {
+  const match = question.match(/(\d+(?:\.\d+)?)\s*(cm|centimet(?:er|re)s?|m|met(?:er|re)s?)\b/i);
+  if (!match) return undefined;
+
+  const value = parseFloat(match[1]);
+  const height = match[2].toLowerCase().startsWith('c') ? value : Math.round(value * 1000) / 10;
+  return height > 0 && height <= MAX_HEIGHT_CM ? height : undefined;
+}
+
+/**
+ * Holliday-Segar maintenance fluids: 100/50/20 mL/kg/day and the 4-2-1 hourly rate
+ * @param weightKg - Patient weight in kilograms
+ */
+export function maintenanceFluids(weightKg: number): { mlPerDay: number; mlPerHour: number } {
+  const first = Math.min(weightKg, 10);
+  const second = Math.min(Math.max(weightKg - 10, 0), 10);
+  const rest = Math.max(weightKg - 20, 0);
+
+  return {
+    mlPerDay: Math.round(first * 100 + second * 50 + rest * 20),
+    mlPerHour: Math.round(first * 4 + second * 2 + rest),
+  };
+}
+
+/**
+ * Body surface area in m² (Mosteller)
+ */
+export function bodySurfaceArea(weightKg: number, heightCm: number): number {
+  return Math.round(Math.sqrt((heightCm * weightKg) / 3600) * 100) / 100;
+}
+
+/**
+ * Body mass index in kg/m²
+ */
+export function bodyMassIndex(weightKg: number, heightCm: number): number {
+  const heightM = heightCm / 100;
+  return Math.round((weightKg / (heightM * heightM)) * 10) / 10;
+}
+
+/**
+ * Markdown answer for a calculator question, asking for whatever inputs are missing
+ * @param calculator - Calculator the question was routed to
+ * @param question - Standalone question, searched for a weight and height
+ * @param patientContext - Chat patient context, used when the question has no weight
+ */
+export function formatCalculatorAnswer(
+  calculator: CalculatorDefinition,
+  question: string,
+  patientContext?: PatientContext
+): string {
+  const weightKg = extractWeightKg(question) ?? patientContext?.weightKg;
+  const heightCm = calculator.needsHeight ? extractHeightCm(question) : undefined;
+
+  const missing = [
+    !weightKg && `weight (up to ${MAX_WEIGHT_KG} kg)`,
+    calculator.needsHeight && !heightCm && `height (in cm)`,
+  ].filter(Boolean);
+  if (!weightKg || missing.length > 0) {
+    return `To calculate ${calculator.name.toLowerCase()}, please include the ${missing.join(' and ')}, e.g. "${calculator.name.toLowerCase()} for a 12 kg${calculator.needsHeight ? ', 85 cm' : ''} child".`;
+  }
+
+  const lines = [`### ${calculator.name}`, ''];
+  switch (calculator.id) {
+    case 'maintenance-fluids': {
+      const { mlPerDay, mlPerHour } = maintenanceFluids(weightKg);
+      lines.push(
+        `- **Daily:** ${mlPerDay} mL/day for ${weightKg} kg`,
+        `- **Hourly:** ${mlPerHour} mL/h (4-2-1 rule)`,
+        '- 100 mL/kg/day for the first 10 kg, 50 mL/kg/day for the next 10 kg, 20 mL/kg/day above 20 kg',
+        '- Adjust for deficits, ongoing losses and conditions such as SIADH, renal or cardiac disease',
+      );
+      break;
+    }
+    case 'bsa':
+      lines.push(
+        `- **BSA:** ${bodySurfaceArea(weightKg, heightCm!)} m²`,
+        `- √(${heightCm} cm × ${weightKg} kg / 3600) (Mosteller)`,
+      );
+      break;
+    case 'bmi':
+      lines.push(
+        `- **BMI:** ${bodyMassIndex(weightKg, heightCm!)} kg/m²`,
+        '- Interpret against age- and sex-specific BMI percentiles in children',
+      );
+      break;
+  }
+
+  return [
+    lines.join('\n'),
+    '_Calculated with the standard formula. Verify before clinical use._',
+  ].join('\n\n');
+}
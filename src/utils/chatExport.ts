@@ -0,0 +1,194 @@
+/**
+ * Export chats to Markdown, printable HTML (saved as PDF from the print dialog)
+ * and a JSON bundle, and read JSON bundles back
+ */
+
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Chat, Citation } from '@/types';
+import { getActiveThread } from './conversation';
+import { buildFootnotes, cleanMarkdownContent, formatCitationLabel } from './markdown';
+import { formatPatientSummary } from './patientContext';
+import { reviveChat, reviveDates } from '../store/serialization';
+
+export const EXPORT_FORMAT = 'nelson-gpt-chats';
+export const EXPORT_VERSION = 1;
+
+export interface ChatExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  chats: Chat[];
+}
+
+export interface ImportResult {
+  chats: Chat[]; // Merged chat list
+  added: number;
+  updated: number;
+  skipped: number; // Already present and not older than the imported copy
+}
+
+function formatReference(citation: Citation): string {
+  const pages = citation.pageRange && citation.pageRange !== 'N/A' ? `, p. ${citation.pageRange}` : '';
+  return `${formatCitationLabel(citation)}${citation.title ? ` — ${citation.title}` : ''}${pages}`;
+}
+
+/**
+ * Markdown for one chat's active thread; each answer is followed by its numbered references
+ * @param chat - Chat with its messages loaded
+ */
+export function chatToMarkdown(chat: Chat): string {
+  const details = [
+    `Mode: ${chat.mode}`,
+    `Created: ${chat.createdAt.toLocaleString()}`,
+    chat.patientContext && `Patient: ${formatPatientSummary(chat.patientContext)}`,
+  ].filter(Boolean);
+
+  const turns = getActiveThread(chat).map(message => {
+    if (message.role === 'user') {
+      return `### Question\n\n${message.content.trim()}`;
+    }
+
+    const { content, references } = buildFootnotes(cleanMarkdownContent(message.content), message.citations);
+    // Footnote links point at the in-app citation scheme; keep just the numbers
+    const answer = content.replace(/\[(\d+)\]\(citation:[^)]*\)/g, '[$1]');
+    const referenceList = references.length > 0
+      ? `\n\n**References**\n\n${references.map((reference, index) => `${index + 1}. ${formatReference(reference)}`).join('\n')}`
+      : '';
+
+    return `### Answer\n\n${answer}${referenceList}`;
+  });
+
+  return [`# ${chat.title}`, details.map(detail => `_${detail}_`).join('  \n'), ...turns].join('\n\n');
+}
+
+/**
+ * Markdown for several chats, separated by horizontal rules
+ */
+export function chatsToMarkdown(chats: Chat[]): string {
+  return chats.map(chatToMarkdown).join('\n\n---\n\n') + '\n';
+}
+
+/**
+ * JSON bundle of chats; only the fields needed to restore them are kept
+ */
+export function createExportBundle(chats: Chat[]): ChatExportBundle {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chats: chats.map(({ messagesLoaded, summary, ...chat }) => ({
+      ...chat,
+      messages: chat.messages.map(message => ({ ...message, isStreaming: false })),
+    })),
+  };
+}
+
+/**
+ * Parse and validate a JSON bundle produced by `createExportBundle`
+ * @param json - File contents
+ */
+export function parseExportBundle(json: string): Chat[] {
+  let bundle: Partial<ChatExportBundle>;
+  try {
+    bundle = JSON.parse(json, reviveDates);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (bundle.format !== EXPORT_FORMAT || !Array.isArray(bundle.chats)) {
+    throw new Error('The file is not a Nelson-GPT chat export');
+  }
+  if ((bundle.version ?? 0) > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of Nelson-GPT');
+  }
+
+  return bundle.chats
+    .filter(chat => typeof chat?.id === 'string' && Array.isArray(chat.messages))
+    .map(chat => reviveChat({ ...chat, title: chat.title || 'Imported Chat', mode: chat.mode ?? 'academic' }));
+}
+
+/**
+ * Merge imported chats into the existing list without duplicating ids;
+ * a chat that already exists is replaced only by a newer copy
+ * @param existing - Chats in the store
+ * @param imported - Chats read from a bundle
+ */
+export function mergeImportedChats(existing: Chat[], imported: Chat[]): ImportResult {
+  const byId = new Map(existing.map(chat => [chat.id, chat]));
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  for (const chat of imported) {
+    const current = byId.get(chat.id);
+    if (!current) {
+      added++;
+    } else if (chat.updatedAt.getTime() > current.updatedAt.getTime()) {
+      updated++;
+    } else {
+      skipped++;
+      continue;
+    }
+    byId.set(chat.id, chat);
+  }
+
+  const chats = [...byId.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  return { chats, added, updated, skipped };
+}
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * File name for an export, e.g. "nelson-gpt-asthma-in-toddlers-2024-05-01.md"
+ */
+export function exportFilename(chats: Chat[], extension: string): string {
+  const name = chats.length === 1
+    ? chats[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'chat'
+    : 'chats';
+  return `nelson-gpt-${name}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1f2937; max-width: 720px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.5rem; } h3 { font-size: 1.05rem; margin-top: 1.5rem; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+  hr { page-break-after: always; border: 0; }
+`;
+
+/**
+ * Open an empty window for `printChats`
+ * Call it straight from the click handler; browsers block pop-ups opened after an await.
+ * @returns Null when the browser blocked the window
+ */
+export function openPrintWindow(): Window | null {
+  return window.open('', '_blank');
+}
+
+/**
+ * Render the chats into a print-ready window so they can be saved as PDF
+ * @param printWindow - Window from `openPrintWindow`
+ */
+export async function printChats(printWindow: Window, chats: Chat[]): Promise<void> {
+  // The server renderer is only needed here, so keep it out of the main bundle
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const body = renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, chatsToMarkdown(chats)));
+
+  const title = chats.length === 1 ? chats[0].title : 'Nelson-GPT chats';
+  printWindow.document.write(`<!doctype html><html><head><meta charset="utf-8"><title></title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`);
+  printWindow.document.title = title;
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,337 @@
+/**
+ * Text chunking for embedding
+ * Free of Vite and browser APIs so the ingestion CLI in backend/ingest can import it
+ */
+
+import { extractHeadings } from './markdown';
+
+/**
+ * Chunk text into smaller pieces for embedding
+ * @param text - Text to chunk
+ * @param maxLength - Maximum length per chunk (in characters)
+ * @param overlap - Overlap between chunks (in characters)
+ * @returns string[] - Array of text chunks
+ */
+export function chunkText(text: string, maxLength: number = 500, overlap: number = 50): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = start + maxLength;
+    
+    // If we're not at the end, try to break at a sentence or word boundary
+    if (end < text.length) {
+      const sentenceEnd = text.lastIndexOf('.', end);
+      const wordEnd = text.lastIndexOf(' ', end);
+      
+      if (sentenceEnd > start + maxLength * 0.5) {
+        end = sentenceEnd + 1;
+      } else if (wordEnd > start + maxLength * 0.5) {
+        end = wordEnd;
+      }
+    }
+
+    chunks.push(text.slice(start, end).trim());
+    start = Math.max(start + maxLength - overlap, end);
+  }
+
+  return chunks.filter(chunk => chunk.length > 0);
+}
+
+/**
+ * Rough WordPiece token count for the MiniLM embedding models: words split into
+ * ~4-character pieces, numbers into ~3-digit pieces, punctuation counts once.
+ * Errs on the high side so chunks stay under the model's sequence limit.
+ * @param text - Text to count
+ * @returns number - Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(/[\p{L}]+|\d+|[^\s\p{L}\d]/gu)) {
+    if (/^\d/.test(piece)) tokens += Math.ceil(piece.length / 3);
+    else if (/^\p{L}/u.test(piece)) tokens += piece.length <= 6 ? 1 : Math.ceil(piece.length / 4);
+    else tokens += 1;
+  }
+  return tokens;
+}
+
+export interface StructuredChunk {
+  content: string; // Breadcrumb line followed by the chunk body
+  headings: string[]; // Heading path, outermost first
+  tokens: number;
+  start: number; // Offset of the chunk body in the source text
+  end: number;
+}
+
+export interface StructuredChunkOptions {
+  maxTokens?: number; // Including the breadcrumb line
+  overlapTokens?: number; // Sentences repeated when a paragraph has to be split
+  countTokens?: (text: string) => number;
+  title?: string; // Breadcrumb root, e.g. the chapter title
+}
+
+/** all-MiniLM-L6-v2 truncates input after 256 word pieces, two of which are [CLS] and [SEP] */
+export const DEFAULT_CHUNK_TOKENS = 250;
+export const DEFAULT_OVERLAP_TOKENS = 30;
+
+type BlockKind = 'paragraph' | 'list' | 'table' | 'code';
+
+interface Span {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Block extends Span {
+  kind: BlockKind;
+}
+
+interface Section {
+  headings: string[];
+  blocks: Block[];
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{2,}/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+const INDENTED_PATTERN = /^\s{2,}\S/;
+
+/**
+ * Split markdown into sections by heading, and each section into paragraph,
+ * list, table and code blocks
+ */
+function parseSections(text: string): Section[] {
+  const sections: Section[] = [{ headings: [], blocks: [] }];
+  const stack: Array<{ level: number; text: string }> = [];
+  let block: (Block & { lines: string[] }) | null = null;
+  let blankInList = false;
+  let inFence = false;
+  let offset = 0;
+
+  const close = () => {
+    if (block) {
+      sections[sections.length - 1].blocks.push({ kind: block.kind, text: block.lines.join('\n'), start: block.start, end: block.end });
+    }
+    block = null;
+    blankInList = false;
+  };
+
+  const open = (kind: BlockKind, line: string, start: number) => {
+    close();
+    block = { kind, lines: [line], text: '', start, end: start + line.length };
+  };
+
+  const append = (line: string, start: number) => {
+    if (!block) return;
+    if (blankInList) block.lines.push('');
+    block.lines.push(line);
+    block.end = start + line.length;
+    blankInList = false;
+  };
+
+  for (const line of text.split('\n')) {
+    const start = offset;
+    offset += line.length + 1;
+    const current = block as Block | null;
+
+    if (inFence) {
+      append(line, start);
+      if (FENCE_PATTERN.test(line)) {
+        inFence = false;
+        close();
+      }
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      open('code', line, start);
+      inFence = true;
+      continue;
+    }
+
+    const [heading] = extractHeadings(line);
+    if (heading) {
+      close();
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+      stack.push({ level: heading.level, text: heading.text.replace(/\s+#+$/, '') });
+      sections.push({ headings: stack.map(entry => entry.text), blocks: [] });
+      continue;
+    }
+
+    if (!line.trim()) {
+      if (current?.kind === 'list') blankInList = true;
+      else close();
+      continue;
+    }
+
+    if (TABLE_ROW_PATTERN.test(line)) {
+      if (current?.kind === 'table') append(line, start);
+      else open('table', line, start);
+    } else if (LIST_ITEM_PATTERN.test(line)) {
+      if (current?.kind === 'list') append(line, start);
+      else open('list', line, start);
+    } else if (current?.kind === 'list' && (!blankInList || INDENTED_PATTERN.test(line))) {
+      append(line, start);
+    } else if (current?.kind === 'paragraph') {
+      append(line, start);
+    } else {
+      open('paragraph', line, start);
+    }
+  }
+
+  close();
+  return sections.filter(section => section.blocks.length > 0);
+}
+
+/**
+ * Greedily join spans into groups that fit the budget
+ * @param overlap - Tokens of trailing spans to repeat at the start of the next group
+ * @param header - Text repeated at the top of every group (table header rows)
+ */
+function packSpans(
+  spans: Span[],
+  budget: number,
+  countTokens: (text: string) => number,
+  separator: string,
+  { overlap = 0, header }: { overlap?: number; header?: string } = {}
+): Span[] {
+  const headerTokens = header ? countTokens(header) : 0;
+  const result: Span[] = [];
+  let group: Array<Span & { tokens: number }> = [];
+  let groupTokens = headerTokens;
+
+  const flush = () => {
+    if (group.length === 0) return;
+    const body = group.map(span => span.text).join(separator);
+    result.push({
+      text: header ? `${header}${separator}${body}` : body,
+      start: group[0].start,
+      end: group[group.length - 1].end,
+    });
+  };
+
+  for (const span of spans) {
+    const tokens = countTokens(span.text);
+
+    if (group.length > 0 && groupTokens + tokens > budget) {
+      flush();
+      const carried: typeof group = [];
+      let carriedTokens = 0;
+      for (let i = group.length - 1; i > 0; i--) {
+        const next = carriedTokens + group[i].tokens;
+        if (next > overlap || headerTokens + next + tokens > budget) break;
+        carried.unshift(group[i]);
+        carriedTokens = next;
+      }
+      group = carried;
+      groupTokens = headerTokens + carriedTokens;
+    }
+
+    group.push({ ...span, tokens });
+    groupTokens += tokens;
+  }
+
+  flush();
+  return result;
+}
+
+/** Spans of every regex match in a span's text, with source offsets */
+function matchSpans(span: Span, pattern: RegExp): Span[] {
+  return [...span.text.matchAll(pattern)].map(match => ({
+    text: match[0].trim(),
+    start: span.start + match.index!,
+    end: span.start + match.index! + match[0].length,
+  })).filter(part => part.text.length > 0);
+}
+
+/** Split prose by sentence, falling back to words for run-on sentences */
+function splitProse(span: Span, budget: number, overlap: number, countTokens: (text: string) => number): Span[] {
+  const units = matchSpans(span, /\S[\s\S]*?(?:[.!?]+(?=\s|$)|$)/g).flatMap(sentence =>
+    countTokens(sentence.text) > budget
+      ? packSpans(matchSpans(sentence, /\S+/g), budget, countTokens, ' ')
+      : [sentence]
+  );
+  return packSpans(units, budget, countTokens, ' ', { overlap });
+}
+
+/** Split a block that is larger than the budget along its own structure */
+function splitBlock(block: Block, budget: number, overlap: number, countTokens: (text: string) => number): Span[] {
+  switch (block.kind) {
+    case 'table': {
+      // Repeat the header row in every piece so each one can still be read
+      const rows = matchSpans(block, /[^\n]+/g);
+      const headerRows = rows.length > 2 && TABLE_SEPARATOR_PATTERN.test(rows[1].text) ? 2 : 0;
+      const header = rows.slice(0, headerRows).map(row => row.text).join('\n') || undefined;
+      return packSpans(rows.slice(headerRows), budget, countTokens, '\n', { header });
+    }
+    case 'list': {
+      const indent = block.text.match(/^\s*/)![0].length;
+      const items = matchSpans(block, new RegExp(`(?:^|\\n)\\s{0,${indent}}(?:[-*+•]|\\d+[.)])\\s[\\s\\S]*?(?=\\n\\s{0,${indent}}(?:[-*+•]|\\d+[.)])\\s|$)`, 'g'));
+      const parts = items.flatMap(item =>
+        countTokens(item.text) > budget ? splitProse(item, budget, overlap, countTokens) : [item]
+      );
+      return packSpans(parts, budget, countTokens, '\n');
+    }
+    case 'code':
+      return packSpans(matchSpans(block, /[^\n]+/g), budget, countTokens, '\n');
+    default:
+      return splitProse(block, budget, overlap, countTokens);
+  }
+}
+
+/**
+ * Chunk markdown along its structure for embedding. Chunks never cross a
+ * heading, tables and lists are only split when they alone exceed the budget,
+ * and every chunk starts with its heading path ("Asthma > Management > Dosing").
+ * @param text - Markdown to chunk
+ * @param options - Token budget, overlap, tokenizer and breadcrumb root
+ * @returns StructuredChunk[] - Chunks in document order
+ */
+export function chunkMarkdown(text: string, options: StructuredChunkOptions = {}): StructuredChunk[] {
+  const {
+    maxTokens = DEFAULT_CHUNK_TOKENS,
+    overlapTokens = DEFAULT_OVERLAP_TOKENS,
+    countTokens = estimateTokens,
+    title,
+  } = options;
+  const chunks: StructuredChunk[] = [];
+
+  for (const section of parseSections(text)) {
+    let headings = title && section.headings[0]?.toLowerCase() !== title.toLowerCase()
+      ? [title, ...section.headings]
+      : section.headings;
+
+    // Deep heading paths keep their innermost levels rather than crowding out the text
+    while (headings.length > 1 && countTokens(headings.join(' > ')) > maxTokens / 2) {
+      headings = headings.slice(1);
+    }
+
+    const prefix = headings.length > 0 ? `${headings.join(' > ')}\n\n` : '';
+    const budget = maxTokens - countTokens(prefix);
+    const spans: Span[] = [];
+    let run: Span[] = [];
+
+    for (const block of section.blocks) {
+      if (countTokens(block.text) <= budget) {
+        run.push(block);
+        continue;
+      }
+      spans.push(...packSpans(run, budget, countTokens, '\n\n'));
+      run = [];
+      spans.push(...splitBlock(block, budget, overlapTokens, countTokens));
+    }
+    spans.push(...packSpans(run, budget, countTokens, '\n\n'));
+
+    for (const span of spans) {
+      const content = prefix + span.text;
+      chunks.push({ content, headings, tokens: countTokens(content), start: span.start, end: span.end });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,194 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Chat } from '@/types';
+import type { ChatHistoryRow } from './supabase';
+
+const SUPABASE_URL = 'http://localhost:54321';
+const USER_ID = 'user-1';
+
+const chat: Chat = {
+  id: 'chat-1',
+  title: 'Croup',
+  mode: 'clinical',
+  createdAt: new Date('2024-03-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-03-01T10:05:00.000Z'),
+  messages: [
+    { id: 'msg-1', role: 'user', content: 'Dexamethasone dose for croup?', timestamp: new Date('2024-03-01T10:00:00.000Z'), parentId: null },
+    { id: 'msg-2', role: 'assistant', content: '0.15-0.6 mg/kg once.', timestamp: new Date('2024-03-01T10:05:00.000Z'), parentId: 'msg-1' },
+  ],
+};
+
+const toRow = (value: Chat, userId = USER_ID): ChatHistoryRow => ({
+  user_id: userId,
+  chat_id: value.id,
+  chat_data: JSON.parse(JSON.stringify(value)),
+  updated_at: value.updatedAt.toISOString(),
+  deleted: false,
+});
+
+/**
+ * In-memory stand-in for the PostgREST `chat_history` endpoint
+ * Supports the requests the sync makes: filtered, ordered selects and upserts on (user_id, chat_id).
+ */
+function createPostgrestStandIn(initialRows: ChatHistoryRow[] = []) {
+  const rows = new Map(initialRows.map(row => [`${row.user_id}/${row.chat_id}`, row]));
+
+  const fetch = vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = init.method ?? 'GET';
+    if (url.pathname !== '/rest/v1/chat_history') {
+      return Response.json({ message: `No stand-in for ${method} ${url.pathname}` }, { status: 404 });
+    }
+
+    if (method === 'GET') {
+      const userId = url.searchParams.get('user_id')?.replace(/^eq\./, '');
+      const limit = Number(url.searchParams.get('limit') ?? Infinity);
+      const result = [...rows.values()]
+        .filter(row => row.user_id === userId)
+        .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+        .slice(0, limit);
+      return Response.json(result);
+    }
+
+    if (method === 'POST') {
+      const upsert = new Headers(init.headers).get('Prefer')?.includes('resolution=merge-duplicates');
+      for (const row of [JSON.parse(String(init.body))].flat() as ChatHistoryRow[]) {
+        const key = `${row.user_id}/${row.chat_id}`;
+        if (rows.has(key) && !upsert) {
+          return Response.json({ code: '23505', message: 'duplicate key value violates unique constraint' }, { status: 409 });
+        }
+        rows.set(key, row);
+      }
+      return new Response(null, { status: 201 });
+    }
+
+    return Response.json({ message: `Method ${method} not allowed` }, { status: 405 });
+  });
+
+  return { rows, fetch };
+}
+
+// A signed-in session as supabase-js stores it, so the auth client starts signed in
+function storeSession() {
+  localStorage.setItem('sb-localhost-auth-token', JSON.stringify({
+    access_token: 'access-token',
+    refresh_token: 'refresh-token',
+    token_type: 'bearer',
+    expires_in: 3600,
+    expires_at: Math.floor(Date.now() / 1000) + 3600,
+    user: { id: USER_ID, email: 'clinician@example.com', aud: 'authenticated', role: 'authenticated', app_metadata: {}, user_metadata: {} },
+  }));
+}
+
+// The Supabase client is created on import, so each test loads the modules against its own stand-in
+async function loadModules(standIn: ReturnType<typeof createPostgrestStandIn>) {
+  vi.resetModules();
+  vi.stubGlobal('fetch', standIn.fetch);
+
+  const [supabase, cloudSync, { useChatStore }] = await Promise.all([
+    import('./supabase'),
+    import('./cloudSync'),
+    import('../store/chatStore'),
+  ]);
+  await vi.waitFor(() => expect(useChatStore.persist.hasHydrated()).toBe(true));
+
+  return { ...supabase, ...cloudSync, useChatStore };
+}
+
+beforeEach(() => {
+  vi.stubEnv('VITE_SUPABASE_URL', SUPABASE_URL);
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key');
+  globalThis.indexedDB = new IDBFactory();
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('chat_history requests', () => {
+  it('stores a chat and reads it back with its dates', async () => {
+    const standIn = createPostgrestStandIn();
+    const { storeChatHistory, getChatHistory, mergeRemoteChats } = await loadModules(standIn);
+
+    await storeChatHistory(USER_ID, chat);
+    const rows = await getChatHistory(USER_ID);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ user_id: USER_ID, chat_id: 'chat-1', updated_at: chat.updatedAt.toISOString(), deleted: false });
+    expect(mergeRemoteChats([], rows).upserts).toEqual([chat]);
+  });
+
+  it('replaces the stored copy on later pushes and leaves a tombstone on delete', async () => {
+    const standIn = createPostgrestStandIn();
+    const { storeChatHistory, deleteChatHistory, getChatHistory, mergeRemoteChats } = await loadModules(standIn);
+
+    await storeChatHistory(USER_ID, chat);
+    await storeChatHistory(USER_ID, { ...chat, title: 'Croup (renamed)', updatedAt: new Date('2024-03-02T09:00:00.000Z') });
+    expect(standIn.rows.get(`${USER_ID}/chat-1`)?.chat_data?.title).toBe('Croup (renamed)');
+
+    await deleteChatHistory(USER_ID, 'chat-1', new Date('2024-03-03T09:00:00.000Z'));
+    const rows = await getChatHistory(USER_ID);
+
+    expect(rows).toEqual([expect.objectContaining({ chat_id: 'chat-1', chat_data: null, deleted: true })]);
+    expect(mergeRemoteChats([chat], rows).deletedIds).toEqual(['chat-1']);
+  });
+
+  it('only reads the signed-in user\'s rows', async () => {
+    const standIn = createPostgrestStandIn([toRow(chat, 'someone-else')]);
+    const { getChatHistory } = await loadModules(standIn);
+
+    expect(await getChatHistory(USER_ID)).toEqual([]);
+  });
+});
+
+describe('startCloudSync', () => {
+  it('pulls newer remote chats on sign-in and pushes local ones the server lacks', async () => {
+    const remote: Chat = { ...chat, id: 'chat-remote', title: 'From another device' };
+    const local: Chat = { ...chat, id: 'chat-local', title: 'Only on this device' };
+    const standIn = createPostgrestStandIn([toRow(remote)]);
+    storeSession();
+    const { startCloudSync, useChatStore } = await loadModules(standIn);
+    useChatStore.setState(state => ({ chats: [local], preferences: { ...state.preferences, cloudSync: true } }));
+
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const stop = startCloudSync();
+
+    await vi.waitFor(() => expect(useChatStore.getState().getChatById('chat-remote')?.title).toBe('From another device'));
+    expect(useChatStore.getState().user?.id).toBe(USER_ID);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.waitFor(() => expect(standIn.rows.get(`${USER_ID}/chat-local`)?.chat_data?.title).toBe('Only on this device'));
+    stop();
+  });
+
+  it('pushes local edits, branch switches and deletions after they settle', async () => {
+    const regenerated = { ...chat.messages[1], id: 'msg-3', content: '0.6 mg/kg once, max 16 mg.' };
+    const standIn = createPostgrestStandIn([toRow({ ...chat, messages: [...chat.messages, regenerated] })]);
+    storeSession();
+    const { startCloudSync, useChatStore } = await loadModules(standIn);
+    useChatStore.setState(state => ({ preferences: { ...state.preferences, cloudSync: true } }));
+
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const stop = startCloudSync();
+    await vi.waitFor(() => expect(useChatStore.getState().getChatById('chat-1')).toBeDefined());
+    const storedRow = () => standIn.rows.get(`${USER_ID}/chat-1`);
+
+    useChatStore.getState().addMessage('chat-1', { role: 'user', content: 'And for stridor at rest?', parentId: 'msg-3' });
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.waitFor(() => expect(storedRow()?.chat_data?.messages).toHaveLength(4));
+
+    useChatStore.getState().selectBranch('chat-1', 'msg-2');
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.waitFor(() => expect(storedRow()?.chat_data?.branchSelections?.['msg-1']).toBe('msg-2'));
+
+    useChatStore.getState().deleteChat('chat-1');
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.waitFor(() => expect(storedRow()).toMatchObject({ deleted: true, chat_data: null }));
+    stop();
+  });
+});
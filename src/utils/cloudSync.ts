@@ -0,0 +1,192 @@
+/**
+ * Opt-in cloud sync of chat history through Supabase
+ * Whole chats are upserted per change and conflicts go to the most recent `updatedAt`.
+ * Deleted chats are pushed as tombstones so other devices drop them on their next pull.
+ */
+
+import { Session } from '@supabase/supabase-js';
+import { Chat, User } from '@/types';
+import { useChatStore } from '../store/chatStore';
+import { reviveChat } from '../store/serialization';
+import { ChatHistoryRow, deleteChatHistory, getChatHistory, storeChatHistory, supabase } from './supabase';
+
+// Wait for edits to settle (e.g. a streamed answer) before pushing
+const PUSH_DEBOUNCE_MS = 2000;
+
+export interface RemoteChanges {
+  upserts: Chat[];
+  deletedIds: string[];
+  pushIds: string[]; // Local chats newer than their remote copy
+}
+
+/**
+ * Compare local chats with the remote rows; the newer side of each chat wins
+ * @param localChats - Chats in the store
+ * @param rows - Rows from `chat_history`, including tombstones
+ */
+export function mergeRemoteChats(localChats: Chat[], rows: ChatHistoryRow[]): RemoteChanges {
+  const local = new Map(localChats.map(chat => [chat.id, chat]));
+  const remoteIds = new Set<string>();
+  const changes: RemoteChanges = { upserts: [], deletedIds: [], pushIds: [] };
+
+  for (const row of rows) {
+    remoteIds.add(row.chat_id);
+    const localChat = local.get(row.chat_id);
+    const remoteTime = new Date(row.updated_at).getTime();
+    const localTime = localChat ? localChat.updatedAt.getTime() : -Infinity;
+
+    if (localTime > remoteTime) {
+      changes.pushIds.push(row.chat_id);
+    } else if (row.deleted || !row.chat_data) {
+      if (localChat) changes.deletedIds.push(row.chat_id);
+    } else if (remoteTime > localTime) {
+      changes.upserts.push(reviveChat(row.chat_data));
+    }
+  }
+
+  for (const chat of localChats) {
+    if (!remoteIds.has(chat.id)) changes.pushIds.push(chat.id);
+  }
+
+  return changes;
+}
+
+// Pulling before the local chats are read from storage would merge against an empty list
+function whenHydrated(): Promise<void> {
+  return new Promise(resolve => {
+    if (useChatStore.persist.hasHydrated()) return resolve();
+    const unsubscribe = useChatStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+function toUser(session: Session | null): User | null {
+  if (!session) return null;
+
+  return {
+    id: session.user.id,
+    email: session.user.email,
+    name: session.user.user_metadata?.full_name,
+    preferences: useChatStore.getState().preferences,
+  };
+}
+
+/**
+ * Track the Supabase session and keep chat history in sync while signed in with sync enabled
+ * @returns Function that stops syncing
+ */
+export function startCloudSync(): () => void {
+  // updatedAt (ms) of each chat as last pulled or pushed
+  const synced = new Map<string, number>();
+  const dirty = new Set<string>();
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const activeUserId = (): string | null => {
+    const { user, preferences } = useChatStore.getState();
+    return user && preferences.cloudSync ? user.id : null;
+  };
+
+  const schedulePush = (chatIds: Iterable<string>) => {
+    for (const chatId of chatIds) dirty.add(chatId);
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => void push(), PUSH_DEBOUNCE_MS);
+  };
+
+  const push = async () => {
+    pushTimer = null;
+    const userId = activeUserId();
+    if (!userId || !navigator.onLine) return;
+
+    const chatIds = [...dirty];
+    dirty.clear();
+
+    for (const chatId of chatIds) {
+      try {
+        // Never-opened chats are loaded first so their messages are not pushed empty
+        await useChatStore.getState().loadChatMessages(chatId);
+        const chat = useChatStore.getState().getChatById(chatId);
+
+        if (!chat) {
+          // Only chats that reached the server need a tombstone
+          if (synced.has(chatId)) {
+            await deleteChatHistory(userId, chatId);
+            synced.delete(chatId);
+          }
+        } else if (chat.messages.some(message => message.isStreaming)) {
+          schedulePush([chatId]);
+        } else if (chat.messagesLoaded !== false && chat.updatedAt.getTime() > (synced.get(chatId) ?? -Infinity)) {
+          await storeChatHistory(userId, chat);
+          synced.set(chatId, chat.updatedAt.getTime());
+        }
+      } catch (error) {
+        console.error('Cloud sync push failed:', error);
+        dirty.add(chatId);
+      }
+    }
+  };
+
+  const pull = async () => {
+    await whenHydrated();
+    const userId = activeUserId();
+    if (!userId) return;
+
+    try {
+      const rows = await getChatHistory(userId);
+      const { chats, applyRemoteChats } = useChatStore.getState();
+      const changes = mergeRemoteChats(chats, rows);
+
+      for (const row of rows) {
+        if (row.deleted) {
+          synced.delete(row.chat_id);
+        } else {
+          synced.set(row.chat_id, new Date(row.updated_at).getTime());
+        }
+      }
+      if (changes.upserts.length > 0 || changes.deletedIds.length > 0) {
+        applyRemoteChats(changes.upserts, changes.deletedIds);
+      }
+      if (changes.pushIds.length > 0) schedulePush(changes.pushIds);
+    } catch (error) {
+      console.error('Cloud sync pull failed:', error);
+    }
+  };
+
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { user, setUser } = useChatStore.getState();
+    const next = toUser(session);
+    if (next?.id === user?.id) return;
+
+    setUser(next);
+    synced.clear();
+    dirty.clear();
+    if (next) void pull();
+  });
+
+  const unsubscribeStore = useChatStore.subscribe((state, previous) => {
+    if (!activeUserId() || !useChatStore.persist.hasHydrated()) return;
+
+    // Turning sync on (or coming back online) pulls first, then pushes what is newer locally
+    if (!previous.preferences.cloudSync || (state.isOnline && !previous.isOnline)) {
+      void pull();
+      return;
+    }
+    if (state.chats === previous.chats) return;
+
+    const previousChats = new Map(previous.chats.map(chat => [chat.id, chat]));
+    const changed = state.chats
+      .filter(chat => previousChats.get(chat.id) !== chat)
+      .map(chat => chat.id);
+    const current = new Set(state.chats.map(chat => chat.id));
+    const deleted = previous.chats.filter(chat => !current.has(chat.id)).map(chat => chat.id);
+
+    if (changed.length > 0 || deleted.length > 0) schedulePush([...changed, ...deleted]);
+  });
+
+  return () => {
+    subscription.unsubscribe();
+    unsubscribeStore();
+    if (pushTimer) clearTimeout(pushTimer);
+  };
+}
@@ -0,0 +1,113 @@
+import { Chat, Message } from '@/types';
+
+/**
+ * Conversation tree helpers. Messages form a tree through `parentId`; sibling
+ * messages are alternative branches (regenerations or edited questions) and
+ * `Chat.branchSelections` records which child is shown under each parent.
+ */
+
+const ROOT_KEY = 'root';
+
+/**
+ * Key used in `branchSelections` for a given parent
+ */
+export function branchKey(parentId: string | null): string {
+  return parentId ?? ROOT_KEY;
+}
+
+/**
+ * Resolve the parent of every message. Messages stored before branching
+ * existed have no `parentId` and are chained to the previous message.
+ */
+function resolveParents(messages: Message[]): Map<string, string | null> {
+  const parents = new Map<string, string | null>();
+
+  messages.forEach((message, index) => {
+    const parentId = message.parentId !== undefined
+      ? message.parentId
+      : index > 0 ? messages[index - 1].id : null;
+    parents.set(message.id, parentId);
+  });
+
+  return parents;
+}
+
+function indexChildren(messages: Message[]): Map<string, Message[]> {
+  const parents = resolveParents(messages);
+  const children = new Map<string, Message[]>();
+
+  for (const message of messages) {
+    const key = branchKey(parents.get(message.id) ?? null);
+    const siblings = children.get(key) ?? [];
+    siblings.push(message);
+    children.set(key, siblings);
+  }
+
+  return children;
+}
+
+/**
+ * Get the parent id of a message (null for the first message of a chat)
+ */
+export function getParentId(chat: Chat, messageId: string): string | null {
+  return resolveParents(chat.messages).get(messageId) ?? null;
+}
+
+/**
+ * Get the currently selected path through the conversation tree, oldest first.
+ * Where no branch has been selected the newest child wins.
+ */
+export function getActiveThread(chat: Chat): Message[] {
+  const children = indexChildren(chat.messages);
+  const thread: Message[] = [];
+  let key = ROOT_KEY;
+
+  while (true) {
+    const candidates = children.get(key);
+    if (!candidates || candidates.length === 0) break;
+
+    const selectedId = chat.branchSelections?.[key];
+    const next = candidates.find(message => message.id === selectedId) ?? candidates[candidates.length - 1];
+
+    thread.push(next);
+    key = next.id;
+  }
+
+  return thread;
+}
+
+/**
+ * Get the messages leading up to a message (not including it), oldest first,
+ * whether or not it is on the active thread
+ */
+export function getThreadTo(chat: Chat, messageId: string): Message[] {
+  const parents = resolveParents(chat.messages);
+  const byId = new Map(chat.messages.map(message => [message.id, message]));
+  const thread: Message[] = [];
+
+  let parentId = parents.get(messageId) ?? null;
+  while (parentId !== null) {
+    const message = byId.get(parentId);
+    if (!message) break;
+    thread.unshift(message);
+    parentId = parents.get(parentId) ?? null;
+  }
+
+  return thread;
+}
+
+/**
+ * Get the id of the last message on the active thread
+ */
+export function getActiveLeafId(chat: Chat): string | null {
+  const thread = getActiveThread(chat);
+  return thread.length > 0 ? thread[thread.length - 1].id : null;
+}
+
+/**
+ * Get all alternatives for a message (including itself), oldest first
+ */
+export function getSiblings(chat: Chat, messageId: string): Message[] {
+  const parentId = getParentId(chat, messageId);
+  return indexChildren(chat.messages).get(branchKey(parentId)) ?? [];
+}
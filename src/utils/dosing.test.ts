@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { DrugDosageRecord, calculateDose, formatDosingAnswer, parseDosage } from './dosing';
+
+const record = (dosage: string, extra: Partial<DrugDosageRecord> = {}): DrugDosageRecord => ({
+  drug_name: 'Test drug',
+  dosage,
+  ...extra,
+});
+
+describe('parseDosage', () => {
+  it('reads a per-dose range, interval and absolute single-dose cap', () => {
+    expect(parseDosage(record('10-15 mg/kg every 4-6 hours (max 1 g/dose)'))).toEqual({
+      minPerKg: 10,
+      maxPerKg: 15,
+      unit: 'mg',
+      basis: 'dose',
+      frequency: 'every 4–6 hours',
+      dosesPerDay: { min: 4, max: 6 },
+      maxSingleDose: 1000,
+    });
+  });
+
+  it('reads a per-kg daily maximum as a per-kg cap, not a flat dose', () => {
+    const parsed = parseDosage(record('10-15 mg/kg every 6 hours', { max_dose: 'max 75 mg/kg/day' }));
+
+    expect(parsed).toMatchObject({ maxDailyDosePerKg: 75 });
+    expect(parsed?.maxSingleDose).toBeUndefined();
+    expect(parsed?.maxDailyDose).toBeUndefined();
+  });
+
+  it('keeps per-kg and absolute maxima side by side', () => {
+    const parsed = parseDosage(record('50 mg/kg/day divided into 3 doses (max 20 mg/kg/dose; max 4 g/day)'));
+
+    expect(parsed).toMatchObject({
+      basis: 'day',
+      dosesPerDay: { min: 3, max: 3 },
+      maxSingleDosePerKg: 20,
+      maxDailyDose: 4000,
+    });
+  });
+
+  it('gives an unqualified per-kg maximum the basis of the dose', () => {
+    expect(parseDosage(record('80-100 mg/kg/day divided into 2 doses (max 90 mg/kg)'))).toMatchObject({ maxDailyDosePerKg: 90 });
+    expect(parseDosage(record('0.15 mg/kg every 8 hours (maximum daily dose 2 mg)'))).toMatchObject({ maxDailyDose: 2 });
+  });
+
+  it('converts maxima to the unit of the dose', () => {
+    expect(parseDosage(record('10 mcg/kg once daily (max 0.5 mg/dose)'))).toMatchObject({ unit: 'mcg', maxSingleDose: 500 });
+  });
+
+  it('returns null without a mg/kg dose', () => {
+    expect(parseDosage(record('1 tablet twice daily'))).toBeNull();
+  });
+});
+
+describe('calculateDose', () => {
+  it('scales a per-kg daily maximum by weight instead of capping at its number', () => {
+    const parsed = parseDosage(record('10-15 mg/kg every 6 hours', { max_dose: 'max 75 mg/kg/day' }))!;
+
+    expect(calculateDose(parsed, 20)).toEqual({
+      weightKg: 20,
+      unit: 'mg',
+      perDose: { min: 200, max: 300 },
+      perDay: { min: 800, max: 1200 },
+      frequency: 'every 6 hours',
+      cappedBy: [],
+    });
+  });
+
+  it('applies a per-kg single-dose cap at the patient weight', () => {
+    const parsed = parseDosage(record('50 mg/kg/day divided into 2 doses (max 20 mg/kg/dose)'))!;
+
+    const calculation = calculateDose(parsed, 10);
+
+    expect(calculation.perDay).toEqual({ min: 500, max: 500 });
+    expect(calculation.perDose).toEqual({ min: 200, max: 200 });
+    expect(calculation.cappedBy).toEqual(['dose']);
+  });
+
+  it('applies an absolute single-dose cap for heavier patients', () => {
+    const parsed = parseDosage(record('10-15 mg/kg every 4-6 hours (max 1 g/dose)'))!;
+
+    const calculation = calculateDose(parsed, 80);
+
+    expect(calculation.perDose).toEqual({ min: 800, max: 1000 });
+    expect(calculation.cappedBy).toEqual(['dose']);
+  });
+
+  it('uses the lower of a per-kg and an absolute daily cap', () => {
+    const parsed = parseDosage(record('100 mg/kg/day divided into 4 doses (max 80 mg/kg/day; max 4 g/day)'))!;
+
+    expect(calculateDose(parsed, 20).perDay).toEqual({ min: 1600, max: 1600 });
+    expect(calculateDose(parsed, 60).perDay).toEqual({ min: 4000, max: 4000 });
+  });
+
+  it('rejects implausible weights', () => {
+    const parsed = parseDosage(record('15 mg/kg every 6 hours'))!;
+
+    expect(() => calculateDose(parsed, 0)).toThrow();
+    expect(() => calculateDose(parsed, 500)).toThrow();
+  });
+});
+
+describe('formatDosingAnswer', () => {
+  it('skips the calculation for weights the calculator does not support', () => {
+    const answer = formatDosingAnswer([record('10-15 mg/kg every 6 hours (max 1 g/dose)')], 180);
+
+    expect(answer).toContain('180 kg is above the 150 kg the dose calculator supports');
+    expect(answer).not.toContain('Dose for');
+  });
+});
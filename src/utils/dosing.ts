@@ -0,0 +1,265 @@
+/**
+ * Weight-based pediatric dosing from `pediatric_drug_dosages` records
+ * Parses the free-text dosage field, computes mg/kg doses and applies max-dose caps
+ */
+
+export interface DrugDosageRecord {
+  _id?: string;
+  drug_name: string;
+  generic_name?: string;
+  indication?: string;
+  age_group?: string;
+  route?: string;
+  dosage: string; // e.g. "10-15 mg/kg every 4-6 hours (max 1 g/dose)"
+  frequency?: string;
+  max_dose?: string;
+  score?: number;
+}
+
+export type DoseUnit = 'mg' | 'mcg';
+
+export interface ParsedDosage {
+  minPerKg: number;
+  maxPerKg: number;
+  unit: DoseUnit;
+  basis: 'dose' | 'day'; // mg/kg per dose or per day
+  frequency?: string;
+  dosesPerDay?: DoseRange; // e.g. every 6-8 hours = 3-4 doses
+  maxSingleDose?: number; // In `unit`
+  maxDailyDose?: number; // In `unit`
+  maxSingleDosePerKg?: number; // In `unit`/kg, e.g. "max 20 mg/kg/dose"
+  maxDailyDosePerKg?: number; // In `unit`/kg, e.g. "max 75 mg/kg/day"
+}
+
+export interface DoseRange {
+  min: number;
+  max: number;
+}
+
+export interface DoseCalculation {
+  weightKg: number;
+  unit: DoseUnit;
+  perDose?: DoseRange;
+  perDay?: DoseRange;
+  frequency?: string;
+  cappedBy: Array<'dose' | 'day'>; // Which max-dose limits were applied
+}
+
+export const MAX_WEIGHT_KG = 150;
+
+const AMOUNT_PATTERN = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(mg|mcg|micrograms?)\s*\/\s*kg(?:\s*(?:\/|per)\s*(day|dose|24\s*h(?:ours?)?))?/i;
+const INTERVAL_PATTERN = /(?:every|q)\s*(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(?:h|hrs?|hours?)\b/i;
+const TIMES_DAILY_PATTERN = /\b(once|twice|three times|four times|(\d+)\s*times)\s*(?:a\s+|per\s+)?(?:day|daily)\b/i;
+const DIVIDED_PATTERN = /divided\s+(?:in(?:to)?\s+)?(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*doses/i;
+const MAX_PATTERN = /max(?:imum)?\.?(?:\s+(?:single\s+|daily\s+)?(?:dose|of))?\s*:?\s*(\d+(?:\.\d+)?)\s*(g|mg|mcg|micrograms?)(\s*\/\s*kg)?(?:\s*(?:\/|per)\s*(day|dose|24\s*h(?:ours?)?))?/gi;
+const DOSING_INTENT_PATTERN = /\b(dose|doses|dosing|dosage|mg\/kg|how much\b.*\b(give|prescribe|administer))\b/i;
+
+const TIMES_DAILY: Record<string, number> = { once: 1, twice: 2, 'three times': 3, 'four times': 4 };
+
+function toUnit(value: number, from: string, to: DoseUnit): number {
+  const mg = from === 'g' ? value * 1000 : from.startsWith('m') && from !== 'mg' ? value / 1000 : value;
+  return to === 'mcg' ? mg * 1000 : mg;
+}
+
+/**
+ * Parse the free-text dosage of a record, or null when it has no mg/kg dose
+ */
+export function parseDosage(record: DrugDosageRecord): ParsedDosage | null {
+  const text = [record.dosage, record.frequency, record.max_dose].filter(Boolean).join('; ');
+  const amount = text.match(AMOUNT_PATTERN);
+  if (!amount) return null;
+
+  const unit: DoseUnit = amount[3].toLowerCase() === 'mg' ? 'mg' : 'mcg';
+  const minPerKg = parseFloat(amount[1]);
+  const maxPerKg = amount[2] ? parseFloat(amount[2]) : minPerKg;
+  // Without an explicit /day or /dose, look at the wording right after the amount
+  const following = text.slice((amount.index ?? 0) + amount[0].length, (amount.index ?? 0) + amount[0].length + 30);
+  const basis = amount[4] && !/dose/i.test(amount[4]) ? 'day'
+    : !amount[4] && /(per day|\/day|daily|divided)/i.test(following) ? 'day'
+    : 'dose';
+
+  const parsed: ParsedDosage = { minPerKg, maxPerKg, unit, basis };
+
+  const interval = text.match(INTERVAL_PATTERN);
+  const timesDaily = text.match(TIMES_DAILY_PATTERN);
+  const divided = text.match(DIVIDED_PATTERN);
+
+  if (interval) {
+    const shortest = parseInt(interval[1], 10);
+    const longest = interval[2] ? parseInt(interval[2], 10) : shortest;
+    parsed.frequency = interval[2] ? `every ${interval[1]}–${interval[2]} hours` : `every ${interval[1]} hours`;
+    if (shortest > 0 && longest > 0) {
+      parsed.dosesPerDay = { min: Math.floor(24 / longest), max: Math.floor(24 / shortest) };
+    }
+  } else if (timesDaily) {
+    const count = timesDaily[2] ? parseInt(timesDaily[2], 10) : TIMES_DAILY[timesDaily[1].toLowerCase()];
+    parsed.dosesPerDay = { min: count, max: count };
+    parsed.frequency = timesDaily[0].toLowerCase();
+  } else if (divided) {
+    const fewest = parseInt(divided[1], 10);
+    parsed.dosesPerDay = { min: fewest, max: divided[2] ? parseInt(divided[2], 10) : fewest };
+    parsed.frequency = divided[0].toLowerCase();
+  }
+
+  for (const max of text.matchAll(MAX_PATTERN)) {
+    const value = toUnit(parseFloat(max[1]), max[2].toLowerCase(), unit);
+    const perKg = Boolean(max[3]);
+    // An unqualified per-kg maximum shares the dose's basis; an unqualified absolute one caps a single dose
+    const capBasis = max[4] ? (/dose/i.test(max[4]) ? 'dose' : 'day')
+      : /daily/i.test(max[0]) ? 'day'
+      : perKg ? basis : 'dose';
+
+    if (capBasis === 'day') {
+      parsed[perKg ? 'maxDailyDosePerKg' : 'maxDailyDose'] = value;
+    } else {
+      parsed[perKg ? 'maxSingleDosePerKg' : 'maxSingleDose'] = value;
+    }
+  }
+
+  return parsed;
+}
+
+function roundDose(value: number): number {
+  return value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+}
+
+// The lower of an absolute cap and a per-kg cap at this weight
+function effectiveCap(absolute: number | undefined, perKg: number | undefined, weightKg: number): number | undefined {
+  const caps = [absolute, perKg === undefined ? undefined : perKg * weightKg].filter((cap): cap is number => cap !== undefined);
+  return caps.length > 0 ? Math.min(...caps) : undefined;
+}
+
+function capRange(range: DoseRange, cap: number | undefined): { range: DoseRange; capped: boolean } {
+  if (cap === undefined || range.max <= cap) return { range, capped: false };
+  return { range: { min: Math.min(range.min, cap), max: cap }, capped: true };
+}
+
+/**
+ * Compute the weight-based dose for a parsed record, capped at any max dose
+ * @param parsed - Parsed dosage
+ * @param weightKg - Patient weight in kilograms
+ */
+export function calculateDose(parsed: ParsedDosage, weightKg: number): DoseCalculation {
+  if (!isSupportedWeight(weightKg)) {
+    throw new Error(`Weight must be between 0 and ${MAX_WEIGHT_KG} kg`);
+  }
+
+  const base = { min: parsed.minPerKg * weightKg, max: parsed.maxPerKg * weightKg };
+  const { dosesPerDay } = parsed;
+  const cappedBy: DoseCalculation['cappedBy'] = [];
+  const maxSingleDose = effectiveCap(parsed.maxSingleDose, parsed.maxSingleDosePerKg, weightKg);
+  const maxDailyDose = effectiveCap(parsed.maxDailyDose, parsed.maxDailyDosePerKg, weightKg);
+
+  const capDose = (range: DoseRange) => {
+    const result = capRange(range, maxSingleDose);
+    if (result.capped) cappedBy.push('dose');
+    return result.range;
+  };
+  const capDay = (range: DoseRange) => {
+    const result = capRange(range, maxDailyDose);
+    if (result.capped) cappedBy.push('day');
+    return result.range;
+  };
+
+  // Cap the stated basis first so the derived amount reflects the cap
+  let perDose: DoseRange | undefined;
+  let perDay: DoseRange | undefined;
+  if (parsed.basis === 'dose') {
+    perDose = capDose(base);
+    if (dosesPerDay) perDay = capDay({ min: perDose.min * dosesPerDay.min, max: perDose.max * dosesPerDay.max });
+  } else {
+    perDay = capDay(base);
+    if (dosesPerDay) perDose = capDose({ min: perDay.min / dosesPerDay.max, max: perDay.max / dosesPerDay.min });
+  }
+
+  const round = (range?: DoseRange) => range && { min: roundDose(range.min), max: roundDose(range.max) };
+
+  return {
+    weightKg,
+    unit: parsed.unit,
+    perDose: round(perDose),
+    perDay: round(perDay),
+    frequency: parsed.frequency,
+    cappedBy,
+  };
+}
+
+/**
+ * Format a dose range, e.g. "150–225 mg"
+ */
+export function formatDoseRange(range: DoseRange, unit: DoseUnit): string {
+  return range.min === range.max ? `${range.min} ${unit}` : `${range.min}–${range.max} ${unit}`;
+}
+
+/**
+ * Whether a chat question asks for a drug dose
+ */
+export function isDosingQuestion(question: string): boolean {
+  return DOSING_INTENT_PATTERN.test(question);
+}
+
+/**
+ * Whether the dose calculator accepts a weight
+ */
+export function isSupportedWeight(weightKg: number): boolean {
+  return Number.isFinite(weightKg) && weightKg > 0 && weightKg <= MAX_WEIGHT_KG;
+}
+
+/**
+ * Weight stated in a question, e.g. "in a 12 kg child"
+ */
+export function extractWeightKg(question: string): number | undefined {
+  const match = question.match(/(\d+(?:\.\d+)?)\s*(?:kg|kilograms?)\b/i);
+  const weight = match ? parseFloat(match[1]) : undefined;
+  return weight && isSupportedWeight(weight) ? weight : undefined;
+}
+
+/**
+ * Strip dosing phrasing from a question so the drug and indication remain for text search
+ */
+export function extractDrugQuery(question: string): string {
+  return question
+    .replace(/'s\b/gi, '')
+    .replace(/\d+(?:\.\d+)?\s*(?:kg|kilograms?|mg|mcg|years?|months?|weeks?|days?|y|mo|wk)\b/gi, ' ')
+    .replace(/\b(what|whats|what's|is|are|the|a|an|of|for|in|to|on|my|child|children|infant|baby|pediatric|paediatric|patient|dose|doses|dosing|dosage|mg\/kg|how|much|should|i|we|give|prescribe|administer|recommended|usual|old|year|please)\b/gi, ' ')
+    .replace(/[^\w\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Markdown answer for a dosing lookup: one section per matching record
+ * @param records - Matching dosage records, best first
+ * @param weightKg - Patient weight, when known
+ */
+export function formatDosingAnswer(records: DrugDosageRecord[], weightKg?: number): string {
+  const sections = records.map(record => {
+    const parsed = parseDosage(record);
+    const details = [record.indication, record.route, record.age_group].filter(Boolean).join(' · ');
+    const lines = [`### ${record.drug_name}${details ? ` — ${details}` : ''}`, '', `- **Recommended:** ${record.dosage}`];
+
+    if (parsed && weightKg && !isSupportedWeight(weightKg)) {
+      lines.push(`- ${weightKg} kg is above the ${MAX_WEIGHT_KG} kg the dose calculator supports; check the adult dose and the maximum above`);
+    } else if (parsed && weightKg) {
+      const calculation = calculateDose(parsed, weightKg);
+      if (calculation.perDose) {
+        lines.push(`- **Dose for ${weightKg} kg:** ${formatDoseRange(calculation.perDose, calculation.unit)} per dose${calculation.frequency ? `, ${calculation.frequency}` : ''}`);
+      }
+      if (calculation.perDay) {
+        lines.push(`- **Daily total:** ${formatDoseRange(calculation.perDay, calculation.unit)} per day`);
+      }
+      if (calculation.cappedBy.length > 0) {
+        lines.push(`- **Capped** at the maximum ${calculation.cappedBy.map(limit => (limit === 'dose' ? 'single' : 'daily')).join(' and ')} dose`);
+      }
+    } else if (parsed && !weightKg) {
+      lines.push('- Add a weight (patient context or "… for a 12 kg child") to calculate the dose');
+    }
+
+    return lines.join('\n');
+  });
+
+  return [
+    ...sections,
+    '_Source: pediatric drug dosage reference. Verify against your local formulary before prescribing._',
+  ].join('\n\n');
+}
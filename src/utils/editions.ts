@@ -0,0 +1,32 @@
+/**
+ * Nelson Textbook of Pediatrics editions in the knowledge base
+ */
+
+import { NelsonEdition } from '@/types';
+
+/**
+ * Indexed editions, newest first
+ */
+export const NELSON_EDITIONS: Array<{ id: NelsonEdition; name: string; year: number }> = [
+  { id: 22, name: '22nd Edition', year: 2024 },
+  { id: 21, name: '21st Edition', year: 2019 },
+  { id: 20, name: '20th Edition', year: 2015 },
+];
+
+/**
+ * Read an edition from stored metadata, which may hold a number or a string ("22", "22e")
+ * @param value - Raw metadata value
+ * @returns The edition, or undefined when missing or not indexed
+ */
+export function parseEdition(value: unknown): NelsonEdition | undefined {
+  const edition = parseInt(String(value ?? ''), 10);
+  return NELSON_EDITIONS.find(entry => entry.id === edition)?.id;
+}
+
+/**
+ * Short edition label used in citations, e.g. "22e"
+ * @param edition - Edition number
+ */
+export function formatEdition(edition: NelsonEdition): string {
+  return `${edition}e`;
+}
@@ -1,48 +1,71 @@
-// Hugging Face embeddings utility
+// Embedding providers: Hugging Face inference API or on-device (Web Worker)
+
+import { EmbeddingProviderId } from '@/types';
+import { generateLocalEmbeddings, isLocalEmbeddingSupported } from './localEmbeddings';
+import { isProxyMode, postToProxy } from './apiConfig';
+
+// Chunking has no browser dependencies and is shared with the ingestion CLI
+export { chunkText } from './chunking';
 
 const HF_API_KEY = import.meta.env.VITE_HF_API_KEY;
 const HF_EMBEDDING_MODEL = import.meta.env.VITE_HF_EMBEDDING_MODEL || 'sentence-transformers/all-MiniLM-L6-v2';
 const HF_API_URL = `https://api-inference.huggingface.co/pipeline/feature-extraction/${HF_EMBEDDING_MODEL}`;
 
-if (!HF_API_KEY) {
-  console.warn('Missing Hugging Face API key - embeddings will not work');
+if (!HF_API_KEY && !isProxyMode) {
+  console.warn('Missing Hugging Face API key - remote embeddings will not work');
 }
 
 /**
- * Generate embeddings using Hugging Face API
- * @param text - Text to generate embeddings for
- * @returns Promise<number[]> - Embedding vector
+ * Call the Hugging Face feature-extraction pipeline, either directly or via the backend proxy
+ * @param inputs - Text or texts to embed
+ * @param signal - Optional signal to abort the request
+ * @returns Promise<unknown> - Raw response body
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
+async function requestFeatureExtraction(inputs: string | string[], signal?: AbortSignal): Promise<unknown> {
+  if (isProxyMode) {
+    return postToProxy('/api/embed', { inputs }, signal);
+  }
+
   if (!HF_API_KEY) {
     throw new Error('Hugging Face API key not configured');
   }
 
+  const response = await fetch(HF_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${HF_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      inputs,
+      options: {
+        wait_for_model: true,
+      },
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(`Hugging Face API error: ${response.status} - ${errorData.error || response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Generate embeddings using Hugging Face API
+ * @param text - Text to generate embeddings for
+ * @param signal - Optional signal to abort the request
+ * @returns Promise<number[]> - Embedding vector
+ */
+export async function generateEmbedding(text: string, signal?: AbortSignal): Promise<number[]> {
   if (!text || text.trim().length === 0) {
     throw new Error('Text cannot be empty');
   }
 
   try {
-    const response = await fetch(HF_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${HF_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        inputs: text.trim(),
-        options: {
-          wait_for_model: true,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Hugging Face API error: ${response.status} - ${errorData.error || response.statusText}`);
-    }
-
-    const embedding = await response.json();
+    const embedding = await requestFeatureExtraction(text.trim(), signal);
     
     // Handle different response formats
     if (Array.isArray(embedding) && Array.isArray(embedding[0])) {
@@ -53,7 +76,9 @@ export async function generateEmbedding(text: string): Promise<number[]> {
       throw new Error('Unexpected embedding response format');
     }
   } catch (error) {
-    console.error('Error generating embedding:', error);
+    if (!signal?.aborted) {
+      console.error('Error generating embedding:', error);
+    }
     throw error;
   }
 }
@@ -64,10 +89,6 @@ export async function generateEmbedding(text: string): Promise<number[]> {
  * @returns Promise<number[][]> - Array of embedding vectors
  */
 export async function generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
-  if (!HF_API_KEY) {
-    throw new Error('Hugging Face API key not configured');
-  }
-
   if (!texts || texts.length === 0) {
     throw new Error('Texts array cannot be empty');
   }
@@ -80,26 +101,7 @@ export async function generateBatchEmbeddings(texts: string[]): Promise<number[]
   }
 
   try {
-    const response = await fetch(HF_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${HF_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        inputs: validTexts,
-        options: {
-          wait_for_model: true,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Hugging Face API error: ${response.status} - ${errorData.error || response.statusText}`);
-    }
-
-    const embeddings = await response.json();
+    const embeddings = await requestFeatureExtraction(validTexts);
     
     if (Array.isArray(embeddings) && embeddings.every(emb => Array.isArray(emb))) {
       return embeddings;
@@ -112,6 +114,58 @@ export async function generateBatchEmbeddings(texts: string[]): Promise<number[]
   }
 }
 
+/**
+ * Common interface for embedding backends. All providers must produce
+ * vectors compatible with the existing 384-dim Supabase/Mongo indexes.
+ */
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  dimensions: number;
+  embed: (text: string, signal?: AbortSignal) => Promise<number[]>;
+  embedBatch: (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+  healthCheck: () => Promise<boolean>;
+}
+
+const EMBEDDING_DIMENSIONS = 384;
+
+export const DEFAULT_EMBEDDING_PROVIDER: EmbeddingProviderId =
+  import.meta.env.VITE_EMBEDDING_PROVIDER === 'local' ? 'local' : 'huggingface';
+
+export const huggingFaceEmbeddingProvider: EmbeddingProvider = {
+  id: 'huggingface',
+  dimensions: EMBEDDING_DIMENSIONS,
+  embed: generateEmbedding,
+  embedBatch: (texts) => generateBatchEmbeddings(texts),
+  healthCheck: () => healthCheck(),
+};
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: 'local',
+  dimensions: EMBEDDING_DIMENSIONS,
+  embed: async (text, signal) => {
+    if (!text || text.trim().length === 0) {
+      throw new Error('Text cannot be empty');
+    }
+    const [embedding] = await generateLocalEmbeddings([text.trim()], signal);
+    return embedding;
+  },
+  embedBatch: (texts, signal) => {
+    const validTexts = texts.filter(text => text && text.trim().length > 0);
+    if (validTexts.length === 0) {
+      return Promise.reject(new Error('No valid texts provided'));
+    }
+    return generateLocalEmbeddings(validTexts.map(text => text.trim()), signal);
+  },
+  healthCheck: async () => isLocalEmbeddingSupported(),
+};
+
+/**
+ * Get the embedding provider by id (defaults to the configured provider)
+ */
+export function getEmbeddingProvider(id: EmbeddingProviderId = DEFAULT_EMBEDDING_PROVIDER): EmbeddingProvider {
+  return id === 'local' ? localEmbeddingProvider : huggingFaceEmbeddingProvider;
+}
+
 /**
  * Calculate cosine similarity between two vectors
  * @param a - First vector
@@ -156,67 +210,17 @@ export function normalizeText(text: string): string {
     .toLowerCase();
 }
 
-/**
- * Chunk text into smaller pieces for embedding
- * @param text - Text to chunk
- * @param maxLength - Maximum length per chunk (in characters)
- * @param overlap - Overlap between chunks (in characters)
- * @returns string[] - Array of text chunks
- */
-export function chunkText(text: string, maxLength: number = 500, overlap: number = 50): string[] {
-  if (text.length <= maxLength) {
-    return [text];
-  }
-
-  const chunks: string[] = [];
-  let start = 0;
-
-  while (start < text.length) {
-    let end = start + maxLength;
-    
-    // If we're not at the end, try to break at a sentence or word boundary
-    if (end < text.length) {
-      const sentenceEnd = text.lastIndexOf('.', end);
-      const wordEnd = text.lastIndexOf(' ', end);
-      
-      if (sentenceEnd > start + maxLength * 0.5) {
-        end = sentenceEnd + 1;
-      } else if (wordEnd > start + maxLength * 0.5) {
-        end = wordEnd;
-      }
-    }
-
-    chunks.push(text.slice(start, end).trim());
-    start = Math.max(start + maxLength - overlap, end);
-  }
-
-  return chunks.filter(chunk => chunk.length > 0);
-}
-
 /**
  * Health check for Hugging Face API
  */
 export async function healthCheck(): Promise<boolean> {
-  if (!HF_API_KEY) {
+  if (!HF_API_KEY && !isProxyMode) {
     return false;
   }
 
   try {
-    const response = await fetch(HF_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${HF_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        inputs: 'test',
-        options: {
-          wait_for_model: true,
-        },
-      }),
-    });
-
-    return response.ok;
+    await requestFeatureExtraction('test');
+    return true;
   } catch (error) {
     console.error('Hugging Face health check failed:', error);
     return false;
@@ -0,0 +1,65 @@
+/**
+ * LLM provider selection for Nelson-GPT
+ * Mistral (hosted) or any OpenAI-compatible server (llama.cpp, vLLM, Ollama)
+ */
+
+import { LLMProviderId, LLMSettings } from '@/types';
+import { createMistralClient, DEFAULT_MISTRAL_CONFIG } from './mistral';
+import { createOpenAICompatibleClient, OpenAICompatibleClient } from './openaiCompatible';
+
+// Self-hosted OpenAI-compatible configuration
+const LLM_BASE_URL = import.meta.env.VITE_LLM_BASE_URL || 'http://localhost:8080/v1';
+const LLM_API_KEY = import.meta.env.VITE_LLM_API_KEY || '';
+const LLM_MODEL = import.meta.env.VITE_LLM_MODEL || 'local-model';
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderId =
+  import.meta.env.VITE_LLM_PROVIDER === 'openai-compatible' ? 'openai-compatible' : 'mistral';
+
+export interface LLMProvider extends OpenAICompatibleClient {
+  id: LLMProviderId;
+  name: string;
+}
+
+export const LLM_PROVIDERS: Array<{ id: LLMProviderId; name: string; description: string }> = [
+  { id: 'mistral', name: 'Mistral', description: 'Hosted Mistral API' },
+  { id: 'openai-compatible', name: 'Self-hosted', description: 'OpenAI-compatible server' },
+];
+
+/**
+ * Get the LLM provider for the given settings. Unset fields fall back to the
+ * environment configuration.
+ */
+export function getLLMProvider(settings: Partial<LLMSettings> = {}): LLMProvider {
+  const provider = settings.provider ?? DEFAULT_LLM_PROVIDER;
+  const generation = {
+    ...(settings.maxTokens !== undefined && { maxTokens: settings.maxTokens }),
+    ...(settings.temperature !== undefined && { temperature: settings.temperature }),
+  };
+
+  if (provider === 'openai-compatible') {
+    return {
+      id: provider,
+      name: 'Self-hosted',
+      ...createOpenAICompatibleClient(
+        {
+          ...DEFAULT_MISTRAL_CONFIG,
+          ...generation,
+          apiKey: LLM_API_KEY,
+          model: settings.model || LLM_MODEL,
+          baseUrl: settings.baseUrl || LLM_BASE_URL,
+          requireApiKey: false,
+        },
+        'Self-hosted LLM'
+      ),
+    };
+  }
+
+  return {
+    id: 'mistral',
+    name: 'Mistral',
+    ...createMistralClient({
+      ...generation,
+      ...(settings.model && { model: settings.model }),
+    }),
+  };
+}
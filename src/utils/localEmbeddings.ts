@@ -0,0 +1,116 @@
+/**
+ * On-device embeddings and reranking via a Web Worker (transformers.js / ONNX)
+ * Query text never leaves the browser
+ */
+
+import type { EmbeddingWorkerRequest, EmbeddingWorkerResponse } from '../workers/embedding.worker';
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, {
+  resolve: (response: EmbeddingWorkerResponse) => void;
+  reject: (error: Error) => void;
+}>();
+
+/**
+ * Whether this browser can run the local embedding worker
+ */
+export function isLocalEmbeddingSupported(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/embedding.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => {
+    const response = event.data;
+    const pending = pendingRequests.get(response.id);
+    if (!pending) return; // Request was aborted
+
+    pendingRequests.delete(response.id);
+    if ('error' in response) {
+      pending.reject(new Error(`Local model error: ${response.error}`));
+    } else {
+      pending.resolve(response);
+    }
+  };
+
+  worker.onerror = (event) => {
+    const error = new Error(`Local model worker failed: ${event.message}`);
+    pendingRequests.forEach(pending => pending.reject(error));
+    pendingRequests.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+}
+
+/**
+ * Send a task to the worker and wait for its response
+ */
+function runWorkerTask(
+  task: DistributiveOmit<EmbeddingWorkerRequest, 'id'>,
+  signal?: AbortSignal
+): Promise<EmbeddingWorkerResponse> {
+  if (!isLocalEmbeddingSupported()) {
+    return Promise.reject(new Error('Local models are not supported in this browser'));
+  }
+
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Aborted', 'AbortError'));
+  }
+
+  const id = nextRequestId++;
+
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+
+    // Inference cannot be interrupted, so an abort just stops waiting for it
+    signal?.addEventListener('abort', () => {
+      if (pendingRequests.delete(id)) {
+        reject(new DOMException('Aborted', 'AbortError'));
+      }
+    }, { once: true });
+
+    const request = { ...task, id } as EmbeddingWorkerRequest;
+    getWorker().postMessage(request);
+  });
+}
+
+/**
+ * Generate embeddings on-device
+ * @param texts - Texts to embed
+ * @param signal - Optional signal to abort waiting for the result
+ * @returns Promise<number[][]> - One 384-dim vector per text
+ */
+export async function generateLocalEmbeddings(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+  const response = await runWorkerTask({ task: 'embed', texts }, signal);
+  if (!('embeddings' in response)) {
+    throw new Error('Unexpected local embedding response');
+  }
+  return response.embeddings;
+}
+
+/**
+ * Score (query, passage) pairs on-device with a cross-encoder
+ * @param query - The search query
+ * @param texts - Candidate passages
+ * @param signal - Optional signal to abort waiting for the result
+ * @returns Promise<number[]> - One 0-1 relevance score per passage
+ */
+export async function generateLocalRerankScores(
+  query: string,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<number[]> {
+  const response = await runWorkerTask({ task: 'rerank', query, texts }, signal);
+  if (!('scores' in response)) {
+    throw new Error('Unexpected local rerank response');
+  }
+  return response.scores;
+}
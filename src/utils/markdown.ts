@@ -1,4 +1,69 @@
-import { Citation } from '@/types';
+import { Citation, NelsonEdition } from '@/types';
+import { formatEdition, parseEdition } from './editions';
+
+/**
+ * Short citation label, e.g. "Nelson 22e Ch. 185" ("Nelson Ch. 185" when the edition is unknown)
+ * @param citation - Citation or chunk metadata
+ * @returns Label naming the edition and chapter
+ */
+export function formatCitationLabel(citation: { chapter: string; edition?: NelsonEdition }): string {
+  const chapter = citation.chapter.replace(/\D+/g, '') || citation.chapter;
+  return `Nelson ${citation.edition ? `${formatEdition(citation.edition)} ` : ''}Ch. ${chapter}`;
+}
+
+/**
+ * Link target for a citation: "[edition/]chapter[:pages]", e.g. "22/185:1186-1187".
+ * Without pages it also keys a chapter of one edition.
+ * @param edition - Edition number, if known
+ * @param chapter - Chapter number
+ * @param pageRange - Page range, if known
+ */
+export function citationTarget(edition: string | number | undefined, chapter: string, pageRange?: string): string {
+  return `${edition ? `${edition}/` : ''}${chapter}${pageRange ? `:${pageRange}` : ''}`;
+}
+
+/**
+ * Split a citation link target into its parts
+ * @param target - Target built by `citationTarget`
+ */
+export function parseCitationTarget(target: string): { chapter: string; edition?: NelsonEdition; pageRange?: string } {
+  const [reference, pageRange] = target.split(':');
+  const [edition, chapter] = reference.includes('/') ? reference.split('/') : [undefined, reference];
+  return { chapter, edition: parseEdition(edition), pageRange: pageRange || undefined };
+}
+
+// Citation marker as written in answers, e.g. "[Nelson 22e Ch. 185:1186-1187 - Asthma]"
+const CITATION_PATTERN = /\[Nelson (?:(\d+)e )?Ch\. (\d+)(?::(\d+-?\d*))?(?:\s*-\s*(.+?))?\]/g;
+
+export interface CitationMarker {
+  text: string; // The marker as written
+  chapter: string; // Chapter number
+  edition?: NelsonEdition;
+  pageRange?: string;
+  title?: string;
+}
+
+function toMarker(match: RegExpMatchArray | string[]): CitationMarker {
+  const [text, edition, chapter, pageRange, title] = match;
+  return { text, chapter, edition: parseEdition(edition), pageRange: pageRange || undefined, title: title || undefined };
+}
+
+/**
+ * Find every citation marker in a text, in order. Covers the bare, paged and titled forms.
+ * @param content - Text with citation markers
+ */
+export function findCitationMarkers(content: string): CitationMarker[] {
+  return Array.from(content.matchAll(CITATION_PATTERN), toMarker);
+}
+
+/**
+ * Replace every citation marker in a text
+ * @param content - Text with citation markers
+ * @param replacer - Replacement for one marker
+ */
+export function replaceCitationMarkers(content: string, replacer: (marker: CitationMarker) => string): string {
+  return content.replace(CITATION_PATTERN, (...match: string[]) => replacer(toMarker(match)));
+}
 
 /**
  * Parse citations from markdown content
@@ -6,51 +71,90 @@ import { Citation } from '@/types';
  * @returns Array of citations found in the content
  */
 export function parseCitations(content: string): Citation[] {
-  const citationRegex = /\[Nelson Ch\. (\d+)(?::(\d+-?\d*))?(?:\s*-\s*(.+?))?\]/g;
-  const citations: Citation[] = [];
-  let match;
+  return findCitationMarkers(content).map(({ chapter, edition, pageRange, title }) => ({
+    id: `citation-${chapter}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    chapter: `Chapter ${chapter}`,
+    edition,
+    pageRange: pageRange || 'N/A',
+    title: title || `Nelson Textbook Chapter ${chapter}`,
+    excerpt: '', // Will be populated from context if available
+    confidence: 'high' // Default confidence, can be adjusted based on context
+  }));
+}
 
-  while ((match = citationRegex.exec(content)) !== null) {
-    const [, chapter, pageRange, title] = match;
-    
-    citations.push({
-      id: `citation-${chapter}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      chapter: `Chapter ${chapter}`,
-      pageRange: pageRange || 'N/A',
-      title: title || `Nelson Textbook Chapter ${chapter}`,
-      excerpt: '', // Will be populated from context if available
-      confidence: 'high' // Default confidence, can be adjusted based on context
-    });
-  }
+/**
+ * Link scheme used to mark citations inside rendered markdown
+ */
+export const CITATION_LINK_PREFIX = 'citation:';
+
+/**
+ * Replace citation text with links that the markdown renderer turns into badges
+ * @param content - Content with citation markers
+ * @returns Markdown content with citation markers as `citation:` links
+ */
+export function renderCitationsAsBadges(content: string): string {
+  return replaceCitationMarkers(content, ({ chapter, edition, pageRange }) => {
+    const label = formatCitationLabel({ chapter, edition });
+    return `[${label}](${CITATION_LINK_PREFIX}${citationTarget(edition, chapter, pageRange)})`;
+  });
+}
 
-  return citations;
+/**
+ * Resolve a citation link target to a citation, preferring the retrieved
+ * citations attached to the message (which carry excerpts and confidence).
+ * An edition in the target must match; without one any edition of the chapter does.
+ * @param target - Link target without the `citation:` prefix (e.g. "12", "12:34-36" or "22/12:34-36")
+ * @param citations - Citations attached to the message
+ * @returns Matching citation
+ */
+export function resolveCitationLink(target: string, citations: Citation[] = []): Citation {
+  const { chapter, edition, pageRange } = parseCitationTarget(target);
+  const match = citations.find(citation =>
+    citation.chapter.replace(/\D+/g, '') === chapter &&
+    (!edition || citation.edition === edition)
+  );
+
+  if (match) return match;
+
+  return parseCitations(`[${formatCitationLabel({ chapter, edition })}${pageRange ? `:${pageRange}` : ''}]`)[0];
 }
 
 /**
- * Replace citation text with clickable badges
+ * Replace citation markers with numbered footnote links. Repeated citations of
+ * the same chapter and edition share one number; numbers follow order of first appearance.
  * @param content - Content with citation markers
- * @param onCitationClick - Callback for citation clicks
- * @returns JSX content with citation badges
+ * @param citations - Citations attached to the message
+ * @returns Content with `[n](citation:...)` links and the numbered reference list
  */
-export function renderCitationsAsBadges(
+export function buildFootnotes(
   content: string,
-  _onCitationClick: (citation: Citation) => void
-): string {
-  const citationRegex = /\[Nelson Ch\. (\d+)(?::(\d+-?\d*))?(?:\s*-\s*(.+?))?\]/g;
-  
-  return content.replace(citationRegex, (_, chapter, pageRange, title) => {
-    const citation: Citation = {
-      id: `citation-${chapter}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      chapter: `Chapter ${chapter}`,
-      pageRange: pageRange || 'N/A',
-      title: title || `Nelson Textbook Chapter ${chapter}`,
-      excerpt: '',
-      confidence: 'high'
-    };
-
-    // Return a placeholder that will be replaced with actual badge component
-    return `<citation-badge data-citation='${JSON.stringify(citation)}'>[Nelson Ch. ${chapter}]</citation-badge>`;
+  citations: Citation[] = []
+): { content: string; references: Citation[] } {
+  const numbers = new Map<string, number>();
+  const references: Citation[] = [];
+
+  const footnoted = replaceCitationMarkers(content, ({ chapter, edition, pageRange }) => {
+    const key = citationTarget(edition, chapter);
+    if (!numbers.has(key)) {
+      references.push(resolveCitationLink(citationTarget(edition, chapter, pageRange), citations));
+      numbers.set(key, references.length);
+    }
+
+    return `[${numbers.get(key)}](${CITATION_LINK_PREFIX}${key})`;
   });
+
+  // No inline markers: still list the retrieved sources, one per chapter and edition
+  if (references.length === 0) {
+    const seen = new Set<string>();
+    for (const citation of citations) {
+      const key = citationTarget(citation.edition, citation.chapter.replace(/\D+/g, '') || citation.chapter);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      references.push(citation);
+    }
+  }
+
+  return { content: footnoted, references };
 }
 
 /**
@@ -62,8 +166,7 @@ export function cleanMarkdownContent(content: string): string {
   return content
     .trim()
     .replace(/\n{3,}/g, '\n\n') // Replace multiple newlines with double newlines
-    .replace(/\s+$/gm, '') // Remove trailing spaces from lines
-    .replace(/^\s+/gm, '') // Remove leading spaces from lines (except code blocks)
+    .replace(/[ \t]+$/gm, '') // Remove trailing spaces from lines (indentation is kept for nested lists and code)
     .replace(/\*\*(.*?)\*\*/g, '**$1**') // Ensure bold formatting is consistent
     .replace(/\*(.*?)\*/g, '*$1*'); // Ensure italic formatting is consistent
 }
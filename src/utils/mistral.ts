@@ -1,11 +1,22 @@
-import { MistralStreamResponse } from '@/types';
+import { MistralConfig, PatientContext } from '@/types';
+import { ChatMessage, CompletionRequestOptions, createOpenAICompatibleClient } from './openaiCompatible';
+import { isProxyMode, proxyAuthHeaders, proxyUrl } from './apiConfig';
+import { describePatientContext } from './patientContext';
+import { CitationMarker, findCitationMarkers } from './markdown';
 
 // Mistral AI configuration
 const MISTRAL_API_KEY = import.meta.env.VITE_MISTRAL_API_KEY;
 const MISTRAL_MODEL = import.meta.env.VITE_MISTRAL_MODEL || 'mistral-large-latest';
-const MISTRAL_API_URL = 'https://api.mistral.ai/v1/chat/completions';
+const MISTRAL_API_BASE_URL = 'https://api.mistral.ai/v1';
 
-if (!MISTRAL_API_KEY) {
+export const DEFAULT_MISTRAL_CONFIG: MistralConfig = {
+  apiKey: MISTRAL_API_KEY || '',
+  model: MISTRAL_MODEL,
+  maxTokens: 2000,
+  temperature: 0.3, // Lower temperature for more consistent medical responses
+};
+
+if (!MISTRAL_API_KEY && !isProxyMode) {
   console.warn('Missing Mistral API key - streaming responses will not work');
 }
 
@@ -13,7 +24,7 @@ if (!MISTRAL_API_KEY) {
  * Create a system prompt for Nelson-GPT based on mode and context
  */
 export function createSystemPrompt(
-  options: { includeReferences: boolean; clinicalFocus: boolean }
+  options: { includeReferences: boolean; clinicalFocus: boolean; patientContext?: PatientContext }
 ): string {
   const basePrompt = `You are Nelson-GPT, a pediatric knowledge assistant based on the Nelson Textbook of Pediatrics. You provide evidence-based answers to healthcare professionals.
 
@@ -26,160 +37,101 @@ IMPORTANT GUIDELINES:
 `;
 
   const citationInstruction = options.includeReferences
-    ? '- Always cite sources using the format [Nelson Ch. X] where X is the chapter number'
+    ? '- Always cite sources using the format [Nelson 22e Ch. X] with the edition and chapter number from the source label, or [Nelson Ch. X] when the source has no edition'
     : '- Do not include citations in your response.';
 
   const clinicalFocusInstruction = options.clinicalFocus
     ? 'CLINICAL MODE: Focus on practical clinical applications, differential diagnoses, treatment approaches, and bedside management. Prioritize actionable information for immediate clinical use.'
     : 'ACADEMIC MODE: Provide comprehensive explanations with detailed pathophysiology, epidemiology, and theoretical background. Include educational context and learning objectives.';
 
-  return `${basePrompt}\n${citationInstruction}\n\n${clinicalFocusInstruction}`;
+  const prompt = `${basePrompt}\n${citationInstruction}\n\n${clinicalFocusInstruction}`;
+
+  if (!options.patientContext) return prompt;
+
+  const patientInstruction = `PATIENT CONTEXT (provided by the clinician):
+${describePatientContext(options.patientContext).join('\n')}
+Tailor the answer to this patient: use age-appropriate normal values and differentials, and calculate weight-based doses when a weight is given. Do not assume details that were not provided.`;
+
+  return `${prompt}\n\n${patientInstruction}`;
 }
 
 /**
- * Stream chat completion from Mistral AI
+ * Create a prompt that rewrites a follow-up question into a standalone question
  */
-export async function* streamChatCompletion(
-  messages: Array<{ role: string; content: string }>,
-  onError?: (error: Error) => void
-): AsyncGenerator<string, void, unknown> {
-  if (!MISTRAL_API_KEY) {
-    throw new Error('Mistral API key not configured');
-  }
+export function createCondenseQuestionPrompt(
+  history: Array<{ role: string; content: string }>,
+  question: string
+): Array<{ role: string; content: string }> {
+  const transcript = history
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n');
+
+  return [
+    {
+      role: 'system',
+      content: 'Rewrite the follow-up question as a single standalone pediatric medical question that can be understood without the conversation. Resolve pronouns and implicit references (conditions, drugs, age groups) from the conversation. Reply with the rewritten question only. If the question is already standalone, repeat it unchanged.'
+    },
+    {
+      role: 'user',
+      content: `Conversation:\n${transcript}\n\nFollow-up question: ${question}\n\nStandalone question:`
+    }
+  ];
+}
 
-  try {
-    const response = await fetch(MISTRAL_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${MISTRAL_API_KEY}`,
+/**
+ * Create a Mistral client, optionally overriding the default generation settings
+ */
+export function createMistralClient(config: Partial<MistralConfig> = {}) {
+  // In proxy mode the server adds the key and picks the model
+  if (isProxyMode) {
+    return createOpenAICompatibleClient(
+      {
+        ...DEFAULT_MISTRAL_CONFIG,
+        ...config,
+        apiKey: '',
+        baseUrl: proxyUrl('/api'),
+        chatPath: '/chat/stream',
+        modelsPath: '/health',
+        requireApiKey: false,
+        authHeaders: proxyAuthHeaders,
       },
-      body: JSON.stringify({
-        model: MISTRAL_MODEL,
-        messages,
-        stream: true,
-        max_tokens: 2000,
-        temperature: 0.3, // Lower temperature for more consistent medical responses
-        top_p: 0.9,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Mistral API error: ${response.status} - ${errorData.message || response.statusText}`);
-    }
+      'Mistral'
+    );
+  }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('Failed to get response reader');
-    }
+  return createOpenAICompatibleClient(
+    { ...DEFAULT_MISTRAL_CONFIG, ...config, baseUrl: MISTRAL_API_BASE_URL, requireApiKey: true },
+    'Mistral'
+  );
+}
 
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-          
-          if (trimmedLine === '') continue;
-          if (trimmedLine === 'data: [DONE]') return;
-          if (!trimmedLine.startsWith('data: ')) continue;
-
-          try {
-            const jsonStr = trimmedLine.slice(6); // Remove 'data: ' prefix
-            const data: MistralStreamResponse = JSON.parse(jsonStr);
-            
-            const content = data.choices?.[0]?.delta?.content;
-            if (content) {
-              yield content;
-            }
-
-            // Check if streaming is finished
-            if (data.choices?.[0]?.finish_reason) {
-              return;
-            }
-          } catch (parseError) {
-            console.warn('Failed to parse streaming response:', parseError);
-            continue;
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
-  } catch (error) {
-    console.error('Mistral streaming error:', error);
-    if (onError) {
-      onError(error as Error);
-    }
-    throw error;
-  }
+const mistralClient = createMistralClient();
+
+/**
+ * Stream chat completion from Mistral AI
+ */
+export function streamChatCompletion(
+  messages: ChatMessage[],
+  options: CompletionRequestOptions = {}
+): AsyncGenerator<string, void, unknown> {
+  return mistralClient.streamChatCompletion(messages, options);
 }
 
 /**
  * Non-streaming chat completion (fallback)
  */
-export async function getChatCompletion(
-  messages: Array<{ role: string; content: string }>
+export function getChatCompletion(
+  messages: ChatMessage[],
+  options: CompletionRequestOptions = {}
 ): Promise<string> {
-  if (!MISTRAL_API_KEY) {
-    throw new Error('Mistral API key not configured');
-  }
-
-  try {
-    const response = await fetch(MISTRAL_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${MISTRAL_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: MISTRAL_MODEL,
-        messages,
-        max_tokens: 2000,
-        temperature: 0.3,
-        top_p: 0.9,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Mistral API error: ${response.status} - ${errorData.message || response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || '';
-  } catch (error) {
-    console.error('Mistral API error:', error);
-    throw error;
-  }
+  return mistralClient.getChatCompletion(messages, options);
 }
 
 /**
- * Extract citations from AI response
+ * Extract citations from AI response, in every form the renderer shows as a badge
  */
-export function extractCitations(content: string): Array<{ text: string; chapter: string }> {
-  const citationRegex = /\[Nelson Ch\. (\d+)\]/g;
-  const citations: Array<{ text: string; chapter: string }> = [];
-  let match;
-
-  while ((match = citationRegex.exec(content)) !== null) {
-    citations.push({
-      text: match[0],
-      chapter: match[1]
-    });
-  }
-
-  return citations;
+export function extractCitations(content: string): CitationMarker[] {
+  return findCitationMarkers(content);
 }
 
 /**
@@ -193,49 +145,13 @@ export function validateApiKey(apiKey: string): boolean {
 /**
  * Get available models (for future use)
  */
-export async function getAvailableModels(): Promise<string[]> {
-  if (!MISTRAL_API_KEY) {
-    throw new Error('Mistral API key not configured');
-  }
-
-  try {
-    const response = await fetch('https://api.mistral.ai/v1/models', {
-      headers: {
-        'Authorization': `Bearer ${MISTRAL_API_KEY}`,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch models: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.data?.map((model: any) => model.id) || [];
-  } catch (error) {
-    console.error('Error fetching available models:', error);
-    throw error;
-  }
+export function getAvailableModels(): Promise<string[]> {
+  return mistralClient.listModels();
 }
 
 /**
  * Health check for Mistral API
  */
-export async function healthCheck(): Promise<boolean> {
-  if (!MISTRAL_API_KEY) {
-    return false;
-  }
-
-  try {
-    const response = await fetch('https://api.mistral.ai/v1/models', {
-      headers: {
-        'Authorization': `Bearer ${MISTRAL_API_KEY}`,
-      },
-    });
-
-    return response.ok;
-  } catch (error) {
-    console.error('Mistral health check failed:', error);
-    return false;
-  }
+export function healthCheck(): Promise<boolean> {
+  return mistralClient.healthCheck();
 }
-
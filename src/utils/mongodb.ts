@@ -3,6 +3,11 @@
  * Provides vector similarity search for medical embeddings
  */
 
+import { NelsonEdition } from '@/types';
+import { isProxyMode, postToProxy, proxyUrl } from './apiConfig';
+import { formatEdition, parseEdition } from './editions';
+import { buildVectorSearchFilter } from './vectorSearchFilter';
+
 // MongoDB Atlas Data API configuration
 const MONGODB_DATA_API_URL = import.meta.env.VITE_MONGODB_DATA_API_URL;
 const MONGODB_API_KEY = import.meta.env.VITE_MONGODB_API_KEY;
@@ -17,6 +22,7 @@ export interface MongoDBSearchResult {
   similarity: number;
   source: any;
   chapter: string;
+  edition?: NelsonEdition;
   page_number: number;
   section: string;
 }
@@ -24,6 +30,7 @@ export interface MongoDBSearchResult {
 export interface Citation {
   id: string;
   source: string;
+  edition?: NelsonEdition;
   page: number;
   section: string;
   confidence: 'high' | 'medium' | 'low';
@@ -33,6 +40,28 @@ export interface Citation {
   title: string;
 }
 
+/**
+ * Transform a MongoDB document to MongoDBSearchResult format
+ */
+function toSearchResult(doc: any): MongoDBSearchResult {
+  return {
+    _id: doc._id,
+    score: doc.score || 0,
+    content: doc.content || '',
+    metadata: doc.metadata || {},
+    similarity: doc.score || 0,
+    source: {
+      chapter: doc.chapter || 'Unknown',
+      page: doc.page_number || 0,
+      section: doc.section || 'Unknown',
+    },
+    chapter: doc.chapter || 'Unknown',
+    edition: parseEdition(doc.edition),
+    page_number: doc.page_number || 0,
+    section: doc.section || 'Unknown',
+  };
+}
+
 /**
  * Perform vector similarity search using MongoDB Atlas Vector Search
  */
@@ -45,6 +74,8 @@ export async function vectorSearch(
     medicalSpecialty?: string;
     minConfidenceScore?: number;
     ageGroups?: string[];
+    edition?: NelsonEdition;
+    signal?: AbortSignal;
   } = {}
 ): Promise<MongoDBSearchResult[]> {
   const {
@@ -53,25 +84,28 @@ export async function vectorSearch(
     limit = 10,
     medicalSpecialty,
     minConfidenceScore,
-    ageGroups
+    ageGroups,
+    edition,
+    signal
   } = options;
 
   try {
-    // Build filters
-    const filters: Record<string, any> = {};
-    
-    if (medicalSpecialty) {
-      filters.medical_specialty = medicalSpecialty;
-    }
-    
-    if (minConfidenceScore) {
-      filters.confidence_score = { $gte: minConfidenceScore };
-    }
-    
-    if (ageGroups && ageGroups.length > 0) {
-      filters.age_groups = { $in: ageGroups };
+    // The proxy builds the pipeline server-side from the same options
+    if (isProxyMode) {
+      const data = await postToProxy<{ documents: any[] }>('/api/search', {
+        queryVector,
+        collection,
+        limit,
+        medicalSpecialty,
+        minConfidenceScore,
+        ageGroups,
+        edition,
+      }, signal);
+      return data.documents.map(toSearchResult);
     }
 
+    const filters = buildVectorSearchFilter({ medicalSpecialty, minConfidenceScore, ageGroups, edition });
+
     // MongoDB Atlas Vector Search aggregation pipeline
     const pipeline = [
       {
@@ -98,6 +132,7 @@ export async function vectorSearch(
           confidence_score: 1,
           age_groups: 1,
           chapter: 1,
+          edition: 1,
           page_number: 1,
           section: 1,
           score: 1
@@ -116,7 +151,8 @@ export async function vectorSearch(
         database: MONGODB_DATABASE,
         dataSource: MONGODB_CLUSTER,
         pipeline: pipeline
-      })
+      }),
+      signal
     });
 
     if (!response.ok) {
@@ -129,22 +165,7 @@ export async function vectorSearch(
       throw new Error('No documents returned from MongoDB Vector Search');
     }
 
-    // Transform MongoDB results to MongoDBSearchResult format
-    return data.documents.map((doc: any): MongoDBSearchResult => ({
-      _id: doc._id,
-      score: doc.score || 0,
-      content: doc.content || '',
-      metadata: doc.metadata || {},
-      similarity: doc.score || 0,
-      source: {
-        chapter: doc.chapter || 'Unknown',
-        page: doc.page_number || 0,
-        section: doc.section || 'Unknown',
-      },
-      chapter: doc.chapter || 'Unknown',
-      page_number: doc.page_number || 0,
-      section: doc.section || 'Unknown',
-    }));
+    return data.documents.map(toSearchResult);
 
   } catch (error) {
     console.error('MongoDB Vector Search error:', error);
@@ -152,6 +173,118 @@ export async function vectorSearch(
   }
 }
 
+/**
+ * Perform keyword search over the medical text using Atlas Search
+ */
+export async function keywordSearch(
+  query: string,
+  options: {
+    collection?: string;
+    index?: string;
+    limit?: number;
+    medicalSpecialty?: string;
+    ageGroups?: string[];
+    edition?: NelsonEdition;
+    signal?: AbortSignal;
+  } = {}
+): Promise<MongoDBSearchResult[]> {
+  const {
+    collection = 'medical_embeddings',
+    index = 'medical_text_index',
+    limit = 10,
+    medicalSpecialty,
+    ageGroups,
+    edition,
+    signal
+  } = options;
+
+  try {
+    if (isProxyMode) {
+      const data = await postToProxy<{ documents: any[] }>('/api/search', {
+        query,
+        collection,
+        limit,
+        medicalSpecialty,
+        ageGroups,
+        edition
+      }, signal);
+      return data.documents.map(toSearchResult);
+    }
+
+    const textQuery = {
+      text: {
+        query,
+        path: ['content', 'section', 'metadata.title'],
+        fuzzy: { maxEdits: 1 } // Tolerate typos in eponyms and drug names
+      }
+    };
+
+    const searchFilters = [
+      ...(medicalSpecialty ? [{ text: { query: medicalSpecialty, path: 'medical_specialty' } }] : []),
+      // Matches documents tagged with any of the groups, like $in in the vector search filter
+      ...(ageGroups && ageGroups.length > 0 ? [{ text: { query: ageGroups, path: 'age_groups' } }] : []),
+      ...(edition ? [{ equals: { path: 'edition', value: edition } }] : [])
+    ];
+
+    const pipeline = [
+      {
+        $search: {
+          index,
+          ...(searchFilters.length > 0
+            ? { compound: { must: [textQuery], filter: searchFilters } }
+            : textQuery)
+        }
+      },
+      {
+        $limit: limit
+      },
+      {
+        $addFields: {
+          score: { $meta: 'searchScore' }
+        }
+      },
+      {
+        $project: {
+          _id: 1,
+          content: 1,
+          metadata: 1,
+          chapter: 1,
+          edition: 1,
+          page_number: 1,
+          section: 1,
+          score: 1
+        }
+      }
+    ];
+
+    const response = await fetch(`${MONGODB_DATA_API_URL}/action/aggregate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': MONGODB_API_KEY,
+      },
+      body: JSON.stringify({
+        collection: collection,
+        database: MONGODB_DATABASE,
+        dataSource: MONGODB_CLUSTER,
+        pipeline: pipeline
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`MongoDB Keyword Search failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.documents || []).map(toSearchResult);
+
+  } catch (error) {
+    console.error('MongoDB Keyword Search error:', error);
+    throw new Error(`Keyword search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Search for drug dosage information using text search
  */
@@ -166,6 +299,11 @@ export async function searchDrugDosages(
   const { ageGroup, route, limit = 10 } = options;
 
   try {
+    if (isProxyMode) {
+      const data = await postToProxy<{ documents: any[] }>('/api/drugs', { query, ageGroup, route, limit });
+      return data.documents;
+    }
+
     // Build search query
     const searchQuery: any = {
       text: {
@@ -242,6 +380,11 @@ export async function getMedicalDocument(
   documentId: string,
   collection: string = 'medical_embeddings'
 ): Promise<any | null> {
+  if (isProxyMode) {
+    console.warn('Fetching documents by id is not available through the API proxy');
+    return null;
+  }
+
   try {
     const response = await fetch(`${MONGODB_DATA_API_URL}/action/findOne`, {
       method: 'POST',
@@ -275,6 +418,13 @@ export async function getMedicalDocument(
  */
 export async function healthCheck(): Promise<boolean> {
   try {
+    if (isProxyMode) {
+      const response = await fetch(proxyUrl('/api/health'));
+      if (!response.ok) return false;
+      const data = await response.json();
+      return Boolean(data.services?.mongodb);
+    }
+
     const response = await fetch(`${MONGODB_DATA_API_URL}/action/findOne`, {
       method: 'POST',
       headers: {
@@ -303,7 +453,8 @@ export async function healthCheck(): Promise<boolean> {
 export function extractCitationsFromResults(results: MongoDBSearchResult[]): Citation[] {
   return results.map((result, index) => ({
     id: `citation-${index}`,
-    source: `Nelson Ch. ${result.chapter || 'Unknown'}`,
+    source: `Nelson ${result.edition ? `${formatEdition(result.edition)} ` : ''}Ch. ${result.chapter || 'Unknown'}`,
+    edition: result.edition,
     page: result.page_number || 0,
     section: result.section || 'Unknown',
     confidence: result.similarity > 0.9 ? 'high' : result.similarity > 0.8 ? 'medium' : 'low',
@@ -320,6 +471,11 @@ export function extractCitationsFromResults(results: MongoDBSearchResult[]): Cit
 export function validateMongoDBConfig(): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
 
+  // Credentials live on the proxy in proxy mode
+  if (isProxyMode) {
+    return { isValid: true, errors };
+  }
+
   if (!MONGODB_DATA_API_URL) {
     errors.push('VITE_MONGODB_DATA_API_URL is not configured');
   }
@@ -0,0 +1,259 @@
+/**
+ * Offline knowledge pack
+ * Chapters downloaded into IndexedDB with their quantized embeddings and
+ * searched on-device (brute-force cosine similarity) when the vector
+ * providers can't be reached
+ */
+
+import { NelsonEdition, VectorSearchResult } from '@/types';
+import {
+  PACKS_STORE,
+  PACK_CHUNKS_STORE,
+  isIndexedDBAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone
+} from '../store/indexedDBStorage';
+import { cosineSimilarity, localEmbeddingProvider } from './embeddings';
+import {
+  OFFLINE_PACK_FORMAT,
+  OFFLINE_PACK_VERSION,
+  OfflinePackEntry,
+  OfflinePackFile,
+  OfflinePackManifest,
+  dequantizeEmbedding
+} from './offlinePackFormat';
+
+const OFFLINE_PACK_URL = (import.meta.env.VITE_OFFLINE_PACK_URL || '/offline-packs').replace(/\/+$/, '');
+
+export interface InstalledPack extends OfflinePackEntry {
+  model: string;
+  installedAt: Date;
+}
+
+interface PackChunkRecord {
+  id: string; // `${packId}:${contentHash}`
+  packId: string;
+  content: string;
+  chapter: string;
+  edition?: NelsonEdition;
+  title: string;
+  section: string;
+  pageRange: string;
+  embedding: string;
+  scale: number;
+}
+
+interface IndexedChunk {
+  record: PackChunkRecord;
+  vector: number[];
+}
+
+// Dequantized vectors, loaded on the first search and dropped whenever packs change
+let searchIndex: Promise<IndexedChunk[]> | null = null;
+
+/**
+ * Whether the browser reports no network connection
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+/**
+ * Fetch the list of chapters available for download
+ * @param signal - Optional signal to abort the request
+ * @returns Pack manifest
+ */
+export async function fetchPackManifest(signal?: AbortSignal): Promise<OfflinePackManifest> {
+  const response = await fetch(`${OFFLINE_PACK_URL}/index.json`, { signal });
+
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? 'No offline pack has been published' : `Failed to load offline packs: ${response.statusText}`);
+  }
+
+  const manifest = await response.json() as OfflinePackManifest;
+  if (manifest?.format !== OFFLINE_PACK_FORMAT || !Array.isArray(manifest.packs)) {
+    throw new Error('The offline pack index is not valid');
+  }
+  if (manifest.version > OFFLINE_PACK_VERSION) {
+    throw new Error('The offline packs need a newer version of Nelson-GPT');
+  }
+
+  return manifest;
+}
+
+/**
+ * Download one chapter pack and store it, replacing any earlier copy
+ * @param entry - Chapter from the manifest
+ * @param signal - Optional signal to abort the download
+ */
+export async function installPack(entry: OfflinePackEntry, signal?: AbortSignal): Promise<InstalledPack> {
+  const response = await fetch(`${OFFLINE_PACK_URL}/${encodeURIComponent(entry.id)}.json`, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${entry.title}: ${response.statusText}`);
+  }
+
+  const pack = await response.json() as OfflinePackFile;
+  if (pack?.format !== OFFLINE_PACK_FORMAT || pack.version > OFFLINE_PACK_VERSION || !Array.isArray(pack.chunks)) {
+    throw new Error(`${entry.title} is not a valid offline pack`);
+  }
+  if (pack.dimensions !== localEmbeddingProvider.dimensions) {
+    throw new Error(`${entry.title} was embedded with ${pack.dimensions}-dimension vectors; the on-device model uses ${localEmbeddingProvider.dimensions}`);
+  }
+
+  const installed: InstalledPack = {
+    id: pack.id,
+    chapter: pack.chapter,
+    edition: pack.edition,
+    title: pack.title,
+    chunkCount: pack.chunks.length,
+    bytes: entry.bytes,
+    model: pack.model,
+    installedAt: new Date(),
+  };
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([PACKS_STORE, PACK_CHUNKS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const chunksStore = transaction.objectStore(PACK_CHUNKS_STORE);
+
+    const staleKeys = await requestToPromise(chunksStore.index('packId').getAllKeys(IDBKeyRange.only(pack.id)));
+    staleKeys.forEach(key => chunksStore.delete(key));
+
+    for (const chunk of pack.chunks) {
+      chunksStore.put({
+        id: `${pack.id}:${chunk.contentHash}`,
+        packId: pack.id,
+        content: chunk.content,
+        chapter: pack.chapter,
+        edition: pack.edition,
+        title: pack.title,
+        section: chunk.section,
+        pageRange: chunk.pageRange,
+        embedding: chunk.embedding,
+        scale: chunk.scale,
+      } satisfies PackChunkRecord);
+    }
+    transaction.objectStore(PACKS_STORE).put(installed);
+
+    await done;
+    searchIndex = null;
+    return installed;
+  } catch (error) {
+    console.error('Error installing offline pack:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an installed chapter pack
+ * @param packId - Pack to remove
+ */
+export async function removePack(packId: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([PACKS_STORE, PACK_CHUNKS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const chunksStore = transaction.objectStore(PACK_CHUNKS_STORE);
+
+    const keys = await requestToPromise(chunksStore.index('packId').getAllKeys(IDBKeyRange.only(packId)));
+    keys.forEach(key => chunksStore.delete(key));
+    transaction.objectStore(PACKS_STORE).delete(packId);
+
+    await done;
+    searchIndex = null;
+  } catch (error) {
+    console.error('Error removing offline pack:', error);
+    throw error;
+  }
+}
+
+/**
+ * Installed chapter packs, sorted by title
+ */
+export async function listInstalledPacks(): Promise<InstalledPack[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  const db = await openDatabase();
+  const packs = await requestToPromise<InstalledPack[]>(db.transaction(PACKS_STORE, 'readonly').objectStore(PACKS_STORE).getAll());
+  return packs.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Whether any chapter is available for offline search
+ */
+export async function hasOfflinePack(): Promise<boolean> {
+  if (!isIndexedDBAvailable()) return false;
+
+  try {
+    const db = await openDatabase();
+    return await requestToPromise(db.transaction(PACKS_STORE, 'readonly').objectStore(PACKS_STORE).count()) > 0;
+  } catch (error) {
+    console.warn('Could not read offline packs:', error);
+    return false;
+  }
+}
+
+/**
+ * Download the on-device embedding model now, so questions can be embedded
+ * once the device is offline
+ */
+export async function warmUpOfflineModel(): Promise<void> {
+  try {
+    await localEmbeddingProvider.embed('pediatrics');
+  } catch (error) {
+    console.warn('On-device embedding model could not be loaded:', error);
+  }
+}
+
+function loadSearchIndex(): Promise<IndexedChunk[]> {
+  searchIndex ??= (async () => {
+    const db = await openDatabase();
+    const records = await requestToPromise<PackChunkRecord[]>(
+      db.transaction(PACK_CHUNKS_STORE, 'readonly').objectStore(PACK_CHUNKS_STORE).getAll()
+    );
+    return records.map(record => ({ record, vector: dequantizeEmbedding(record.embedding, record.scale) }));
+  })().catch(error => {
+    searchIndex = null;
+    throw error;
+  });
+
+  return searchIndex;
+}
+
+/**
+ * Vector search over the installed packs, scoring every chunk
+ * @param queryEmbedding - Query vector from the on-device (or any 384-dim) model
+ * @param limit - Maximum number of results to return
+ * @param threshold - Minimum similarity threshold (0-1)
+ * @param edition - Only search chunks from this Nelson edition
+ * @returns Matching chunks in the same shape as Supabase results
+ */
+export async function searchOfflinePack(
+  queryEmbedding: number[],
+  limit: number = 10,
+  threshold: number = 0.7,
+  edition?: NelsonEdition
+): Promise<VectorSearchResult[]> {
+  const chunks = await loadSearchIndex();
+
+  return chunks
+    .filter(({ record }) => !edition || record.edition === edition)
+    .map(({ record, vector }) => ({ record, similarity: cosineSimilarity(queryEmbedding, vector) }))
+    .filter(({ similarity }) => similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ record, similarity }) => ({
+      id: record.id,
+      content: record.content,
+      metadata: {
+        chapter: record.chapter,
+        edition: record.edition,
+        pageRange: record.pageRange,
+        section: record.section,
+        title: record.title
+      },
+      similarity
+    }));
+}
@@ -0,0 +1,80 @@
+/**
+ * Offline knowledge pack files, written by the ingestion CLI and downloaded by the app
+ * Free of Vite and browser APIs so backend/ingest can import it
+ *
+ *   index.json      manifest listing every chapter pack
+ *   <pack id>.json  one source file's chunks with int8-quantized embeddings
+ */
+
+import { NelsonEdition } from '@/types';
+
+export const OFFLINE_PACK_FORMAT = 'nelson-gpt-offline-pack';
+export const OFFLINE_PACK_VERSION = 1;
+
+export interface OfflinePackEntry {
+  id: string;
+  chapter: string;
+  edition?: NelsonEdition;
+  title: string;
+  chunkCount: number;
+  bytes: number; // Size of the pack file
+}
+
+export interface OfflinePackManifest {
+  format: typeof OFFLINE_PACK_FORMAT;
+  version: number;
+  model: string; // Embedding model the vectors were made with
+  dimensions: number;
+  packs: OfflinePackEntry[];
+}
+
+export interface OfflinePackChunk {
+  contentHash: string;
+  content: string;
+  section: string;
+  pageRange: string;
+  embedding: string; // Base64 of the int8 values
+  scale: number; // int8 value * scale = original component
+}
+
+export interface OfflinePackFile {
+  format: typeof OFFLINE_PACK_FORMAT;
+  version: number;
+  model: string;
+  dimensions: number;
+  id: string;
+  source: string;
+  chapter: string;
+  edition?: NelsonEdition;
+  title: string;
+  chunks: OfflinePackChunk[];
+}
+
+/**
+ * Quantize an embedding to int8 with one scale per vector (about 4x smaller than float32)
+ * @param vector - Embedding to quantize
+ * @returns Base64 int8 values and the scale that restores them
+ */
+export function quantizeEmbedding(vector: number[]): { embedding: string; scale: number } {
+  const maxAbs = vector.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  const scale = maxAbs > 0 ? maxAbs / 127 : 1;
+  const bytes = new Uint8Array(Int8Array.from(vector, value => Math.round(value / scale)).buffer);
+
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return { embedding: btoa(binary), scale };
+}
+
+/**
+ * Restore an embedding quantized by `quantizeEmbedding`
+ * @param embedding - Base64 int8 values
+ * @param scale - Scale stored with the values
+ * @returns number[] - Approximate original vector
+ */
+export function dequantizeEmbedding(embedding: string, scale: number): number[] {
+  const bytes = Uint8Array.from(atob(embedding), char => char.charCodeAt(0));
+  return Array.from(new Int8Array(bytes.buffer), value => value * scale);
+}
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useChatStore } from '../store/chatStore';
+import { answerQuestion, isAnswering } from './answer';
+import { processPendingQuestions } from './offlineQueue';
+
+vi.mock('./answer', () => ({
+  answerQuestion: vi.fn(),
+  isAnswering: vi.fn(),
+}));
+
+const busyChats = new Set<string>();
+
+beforeEach(() => {
+  busyChats.clear();
+  vi.mocked(isAnswering).mockImplementation(chatId => busyChats.has(chatId));
+  vi.mocked(answerQuestion).mockReset().mockResolvedValue({ assistantId: 'answer', status: 'answered' });
+  useChatStore.setState({
+    chats: [
+      { id: 'chat-1', title: 'Fever', mode: 'academic', createdAt: new Date(), updatedAt: new Date(), messages: [] },
+      { id: 'chat-2', title: 'Asthma', mode: 'academic', createdAt: new Date(), updatedAt: new Date(), messages: [] },
+    ],
+    pendingQuestions: [
+      { chatId: 'chat-1', messageId: 'question-1', status: 'queued' },
+      { chatId: 'chat-2', messageId: 'question-2', status: 'queued' },
+    ],
+  });
+});
+
+describe('processPendingQuestions', () => {
+  it('answers queued questions in the order asked', async () => {
+    await processPendingQuestions();
+
+    expect(vi.mocked(answerQuestion).mock.calls.map(([chatId, messageId]) => [chatId, messageId])).toEqual([
+      ['chat-1', 'question-1'],
+      ['chat-2', 'question-2'],
+    ]);
+    expect(useChatStore.getState().pendingQuestions).toEqual([]);
+  });
+
+  it('leaves questions queued in a chat that is already streaming an answer', async () => {
+    busyChats.add('chat-1');
+
+    await processPendingQuestions();
+
+    expect(answerQuestion).toHaveBeenCalledTimes(1);
+    expect(answerQuestion).toHaveBeenCalledWith('chat-2', 'question-2');
+    expect(useChatStore.getState().pendingQuestions).toEqual([
+      { chatId: 'chat-1', messageId: 'question-1', status: 'queued' },
+    ]);
+
+    busyChats.clear();
+    await processPendingQuestions();
+
+    expect(answerQuestion).toHaveBeenLastCalledWith('chat-1', 'question-1');
+    expect(useChatStore.getState().pendingQuestions).toEqual([]);
+  });
+});
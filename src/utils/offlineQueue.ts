@@ -0,0 +1,148 @@
+/**
+ * Questions asked while offline
+ * They wait in the store as pending questions and are answered in the order asked
+ * when the browser reports a connection again, or when the service worker's
+ * Background Sync fires (see public/sw-sync.js).
+ */
+
+import { useChatStore } from '../store/chatStore';
+import { answerQuestion, isAnswering } from './answer';
+
+const QUEUE_SYNC_TAG = 'nelson-gpt-pending-questions';
+const QUEUE_SYNC_MESSAGE = 'answer-pending-questions';
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+let processing: Promise<void> | null = null;
+
+// Questions in a chat that is already streaming an answer wait for it to finish
+const nextQueuedQuestion = () =>
+  useChatStore.getState().pendingQuestions.find(question => question.status === 'queued' && !isAnswering(question.chatId));
+
+/**
+ * Queue an already added user message to be answered once back online
+ * @param chatId - Chat holding the question
+ * @param messageId - User message to answer
+ */
+export function queueQuestion(chatId: string, messageId: string): void {
+  useChatStore.getState().queueQuestion(chatId, messageId);
+  void requestBackgroundSync();
+}
+
+/**
+ * Ask the service worker to wake the app when connectivity returns, where Background Sync exists
+ */
+async function requestBackgroundSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready as SyncRegistration;
+    await registration.sync?.register(QUEUE_SYNC_TAG);
+  } catch (error) {
+    console.warn('Background Sync unavailable, waiting for the online event:', error);
+  }
+}
+
+/**
+ * Answer every queued question, one at a time
+ * Questions that fail while online are marked failed and wait for a retry.
+ * Questions in a chat answering a question sent directly are left queued; call
+ * this again once that answer is done.
+ */
+export function processPendingQuestions(): Promise<void> {
+  processing ??= (async () => {
+    const { loadChatMessages, updatePendingQuestion, removePendingQuestion, removeMessage } = useChatStore.getState();
+
+    let next = nextQueuedQuestion();
+    while (next && navigator.onLine) {
+      const { chatId, messageId } = next;
+      updatePendingQuestion(messageId, { status: 'running', error: undefined });
+
+      try {
+        await loadChatMessages(chatId);
+
+        if (isAnswering(chatId)) {
+          // A question sent directly in this chat started meanwhile; wait for it
+          updatePendingQuestion(messageId, { status: 'queued' });
+        } else {
+          const outcome = await answerQuestion(chatId, messageId);
+
+          if (outcome.status === 'failed') {
+            // Keep the question, not the error bubble, so a retry starts clean
+            removeMessage(chatId, outcome.assistantId);
+            updatePendingQuestion(messageId, navigator.onLine
+              ? { status: 'failed', error: outcome.error }
+              : { status: 'queued' });
+          } else {
+            removePendingQuestion(messageId);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to answer queued question:', error);
+        // The chat or question was deleted meanwhile
+        removePendingQuestion(messageId);
+      }
+
+      next = nextQueuedQuestion();
+    }
+  })().finally(() => {
+    processing = null;
+  });
+
+  return processing;
+}
+
+/**
+ * Queue a failed question again and answer it now if online
+ * @param messageId - User message of the pending question
+ */
+export function retryPendingQuestion(messageId: string): void {
+  useChatStore.getState().updatePendingQuestion(messageId, { status: 'queued', error: undefined });
+  if (navigator.onLine) {
+    void processPendingQuestions();
+  } else {
+    void requestBackgroundSync();
+  }
+}
+
+/**
+ * Withdraw a question that has not been answered yet
+ * @param chatId - Chat holding the question
+ * @param messageId - User message of the pending question
+ */
+export function cancelPendingQuestion(chatId: string, messageId: string): void {
+  const question = useChatStore.getState().pendingQuestions.find(pending => pending.messageId === messageId);
+  if (!question || question.status === 'running') return;
+
+  useChatStore.getState().removeMessage(chatId, messageId);
+}
+
+/**
+ * Answer queued questions whenever the app comes back online
+ * @returns Function that stops listening
+ */
+export function startOfflineQueue(): () => void {
+  const unsubscribeStore = useChatStore.subscribe((state, previous) => {
+    if (state.isOnline && !previous.isOnline) void processPendingQuestions();
+  });
+
+  const handleServiceWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === QUEUE_SYNC_MESSAGE) void processPendingQuestions();
+  };
+  navigator.serviceWorker?.addEventListener('message', handleServiceWorkerMessage);
+
+  // Questions left from an earlier session, once the persisted state is read
+  const startWhenHydrated = () => {
+    if (navigator.onLine) void processPendingQuestions();
+  };
+  const unsubscribeHydration = useChatStore.persist.onFinishHydration(startWhenHydrated);
+  if (useChatStore.persist.hasHydrated()) startWhenHydrated();
+
+  return () => {
+    unsubscribeStore();
+    unsubscribeHydration();
+    navigator.serviceWorker?.removeEventListener('message', handleServiceWorkerMessage);
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Client for OpenAI-compatible chat completion APIs
+ * Shared by Mistral and self-hosted servers (llama.cpp, vLLM, Ollama)
+ */
+
+import { MistralConfig, MistralStreamResponse } from '@/types';
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export interface CompletionRequestOptions {
+  signal?: AbortSignal;
+  onError?: (error: Error) => void;
+}
+
+export interface OpenAICompatibleConfig extends MistralConfig {
+  baseUrl: string; // e.g. https://api.mistral.ai/v1 or http://localhost:8080/v1
+  requireApiKey: boolean;
+  chatPath?: string; // defaults to /chat/completions
+  modelsPath?: string; // defaults to /models
+  authHeaders?: () => Promise<Record<string, string>>; // per-request credentials, e.g. the proxy's sign-in token
+}
+
+export interface OpenAICompatibleClient {
+  streamChatCompletion: (
+    messages: ChatMessage[],
+    options?: CompletionRequestOptions
+  ) => AsyncGenerator<string, void, unknown>;
+  getChatCompletion: (messages: ChatMessage[], options?: CompletionRequestOptions) => Promise<string>;
+  listModels: () => Promise<string[]>;
+  healthCheck: () => Promise<boolean>;
+}
+
+/**
+ * Create a chat completion client for an OpenAI-compatible endpoint
+ * @param config - Endpoint, credentials and generation settings
+ * @param label - Human-readable provider name used in errors and logs
+ */
+export function createOpenAICompatibleClient(
+  config: OpenAICompatibleConfig,
+  label: string
+): OpenAICompatibleClient {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const chatUrl = `${baseUrl}${config.chatPath ?? '/chat/completions'}`;
+  const modelsUrl = `${baseUrl}${config.modelsPath ?? '/models'}`;
+
+  const headers = async (): Promise<Record<string, string>> => ({
+    'Content-Type': 'application/json',
+    ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+    ...(await config.authHeaders?.()),
+  });
+
+  const assertConfigured = () => {
+    if (config.requireApiKey && !config.apiKey) {
+      throw new Error(`${label} API key not configured`);
+    }
+    if (!baseUrl) {
+      throw new Error(`${label} endpoint not configured`);
+    }
+  };
+
+  const requestBody = (messages: ChatMessage[], stream: boolean) => JSON.stringify({
+    model: config.model,
+    messages,
+    ...(stream && { stream: true }),
+    max_tokens: config.maxTokens,
+    temperature: config.temperature,
+    top_p: 0.9,
+  });
+
+  async function* streamChatCompletion(
+    messages: ChatMessage[],
+    options: CompletionRequestOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const { onError, signal } = options;
+
+    assertConfigured();
+
+    try {
+      const response = await fetch(chatUrl, {
+        method: 'POST',
+        headers: await headers(),
+        body: requestBody(messages, true),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`${label} API error: ${response.status} - ${errorData.message || errorData.error?.message || (typeof errorData.error === 'string' && errorData.error) || response.statusText}`);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('Failed to get response reader');
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            const trimmedLine = line.trim();
+            
+            if (trimmedLine === '') continue;
+            if (trimmedLine === 'data: [DONE]') return;
+            if (!trimmedLine.startsWith('data: ')) continue;
+
+            try {
+              const jsonStr = trimmedLine.slice(6); // Remove 'data: ' prefix
+              const data: MistralStreamResponse = JSON.parse(jsonStr);
+              
+              const content = data.choices?.[0]?.delta?.content;
+              if (content) {
+                yield content;
+              }
+
+              // Check if streaming is finished
+              if (data.choices?.[0]?.finish_reason) {
+                return;
+              }
+            } catch (parseError) {
+              console.warn('Failed to parse streaming response:', parseError);
+              continue;
+            }
+          }
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    } catch (error) {
+      // Cancellation is user-initiated, not a failure worth reporting
+      if (signal?.aborted) throw error;
+
+      console.error(`${label} streaming error:`, error);
+      if (onError) {
+        onError(error as Error);
+      }
+      throw error;
+    }
+  }
+
+  async function getChatCompletion(
+    messages: ChatMessage[],
+    options: CompletionRequestOptions = {}
+  ): Promise<string> {
+    const { signal } = options;
+
+    assertConfigured();
+
+    try {
+      const response = await fetch(chatUrl, {
+        method: 'POST',
+        headers: await headers(),
+        body: requestBody(messages, false),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`${label} API error: ${response.status} - ${errorData.message || errorData.error?.message || (typeof errorData.error === 'string' && errorData.error) || response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error(`${label} API error:`, error);
+      }
+      throw error;
+    }
+  }
+
+  async function listModels(): Promise<string[]> {
+    assertConfigured();
+
+    try {
+      const response = await fetch(modelsUrl, { headers: await headers() });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch models: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.data?.map((model: any) => model.id) || [];
+    } catch (error) {
+      console.error('Error fetching available models:', error);
+      throw error;
+    }
+  }
+
+  async function healthCheck(): Promise<boolean> {
+    if ((config.requireApiKey && !config.apiKey) || !baseUrl) {
+      return false;
+    }
+
+    try {
+      const response = await fetch(modelsUrl, { headers: await headers() });
+      return response.ok;
+    } catch (error) {
+      console.error(`${label} health check failed:`, error);
+      return false;
+    }
+  }
+
+  return { streamChatCompletion, getChatCompletion, listModels, healthCheck };
+}
@@ -0,0 +1,100 @@
+/**
+ * Patient context helpers: validation, age groups for retrieval filters and
+ * display/prompt formatting
+ */
+
+import { AgeUnit, PatientContext } from '@/types';
+import { isSupportedWeight } from './dosing';
+
+const DAYS_PER_UNIT: Record<AgeUnit, number> = {
+  days: 1,
+  weeks: 7,
+  months: 30.44,
+  years: 365.25,
+};
+
+// `age_groups` values used in the knowledge base, youngest first
+export const AGE_GROUPS = ['neonate', 'infant', 'child', 'adolescent'] as const;
+
+const AGE_UNIT_LABELS: Record<AgeUnit, string> = {
+  days: 'd',
+  weeks: 'wk',
+  months: 'mo',
+  years: 'y',
+};
+
+/**
+ * Drop blank fields and weights the dose calculator can't use; returns undefined
+ * when nothing was entered so an empty panel is never stored or sent
+ */
+export function normalizePatientContext(context?: PatientContext): PatientContext | undefined {
+  if (!context) return undefined;
+
+  const normalized: PatientContext = {};
+  if (context.age && Number.isFinite(context.age.value) && context.age.value >= 0) {
+    normalized.age = context.age;
+  }
+  if (context.weightKg !== undefined && isSupportedWeight(context.weightKg)) {
+    normalized.weightKg = context.weightKg;
+  }
+  if (context.sex) {
+    normalized.sex = context.sex;
+  }
+  if (context.history?.trim()) {
+    normalized.history = context.history.trim();
+  }
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Age in days, or undefined when no age was given
+ */
+export function getAgeInDays(context?: PatientContext): number | undefined {
+  if (!context?.age) return undefined;
+  return context.age.value * DAYS_PER_UNIT[context.age.unit];
+}
+
+/**
+ * Map the patient's age to the `age_groups` values used in the knowledge base
+ */
+export function getAgeGroups(context?: PatientContext): string[] | undefined {
+  const days = getAgeInDays(context);
+  if (days === undefined) return undefined;
+
+  if (days < 28) return ['neonate', 'infant'];
+  if (days < DAYS_PER_UNIT.years) return ['infant'];
+  if (days < 12 * DAYS_PER_UNIT.years) return ['child'];
+  return ['adolescent'];
+}
+
+/**
+ * Short age label, e.g. "4 mo"
+ */
+export function formatPatientAge(age: NonNullable<PatientContext['age']>): string {
+  return `${age.value} ${AGE_UNIT_LABELS[age.unit]}`;
+}
+
+/**
+ * One-line summary for the chat header, e.g. "4 mo · 6.2 kg · F"
+ */
+export function formatPatientSummary(context: PatientContext): string {
+  const parts: string[] = [];
+  if (context.age) parts.push(formatPatientAge(context.age));
+  if (context.weightKg !== undefined) parts.push(`${context.weightKg} kg`);
+  if (context.sex) parts.push(context.sex === 'male' ? 'M' : 'F');
+  if (context.history) parts.push('Hx');
+  return parts.join(' · ');
+}
+
+/**
+ * Patient details as prompt lines, e.g. "- Age: 4 months"
+ */
+export function describePatientContext(context: PatientContext): string[] {
+  const lines: string[] = [];
+  if (context.age) lines.push(`- Age: ${context.age.value} ${context.age.unit}`);
+  if (context.weightKg !== undefined) lines.push(`- Weight: ${context.weightKg} kg`);
+  if (context.sex) lines.push(`- Sex: ${context.sex}`);
+  if (context.history) lines.push(`- Relevant history: ${context.history}`);
+  return lines;
+}
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getEmbeddingProvider } from './embeddings';
+import { getLLMProvider } from './llm';
+import { keywordSearch, searchDrugDosages, vectorSearch } from './mongodb';
+import { getAgeGroups } from './patientContext';
+import { RAGConfig, RAGEvent, RAGRunOptions, ragPipeline } from './rag';
+
+vi.mock('./embeddings', () => ({ getEmbeddingProvider: vi.fn() }));
+vi.mock('./llm', () => ({ getLLMProvider: vi.fn() }));
+vi.mock('./mongodb', () => ({ vectorSearch: vi.fn(), keywordSearch: vi.fn(), searchDrugDosages: vi.fn() }));
+vi.mock('./offlinePack', () => ({
+  isOffline: () => false,
+  hasOfflinePack: async () => false,
+  searchOfflinePack: vi.fn(),
+}));
+
+const embed = vi.fn();
+const condense = vi.fn();
+
+const passage = (content: string) => ({
+  _id: content,
+  score: 1,
+  content,
+  metadata: { chapter: '185', section: 'Management', title: 'Asthma', pageRange: '1186' },
+  similarity: 0.9,
+  source: {},
+  chapter: '185',
+  page_number: 1186,
+  section: 'Management',
+});
+
+async function run(
+  config: Partial<RAGConfig>,
+  query = 'Which controller is preferred in persistent asthma?',
+  options: RAGRunOptions = {}
+): Promise<RAGEvent[]> {
+  const events: RAGEvent[] = [];
+  for await (const event of ragPipeline(query, 'academic', {
+    vectorProvider: 'mongodb',
+    reranker: 'none',
+    ...config,
+  }, options)) {
+    events.push(event);
+  }
+  return events;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  embed.mockResolvedValue([0.1, 0.2, 0.3]);
+  vi.mocked(getEmbeddingProvider).mockReturnValue({ id: 'huggingface', embed } as unknown as ReturnType<typeof getEmbeddingProvider>);
+  condense.mockResolvedValue('Which asthma controller is preferred in infants?');
+  vi.mocked(getLLMProvider).mockReturnValue({
+    getChatCompletion: condense,
+    streamChatCompletion: async function* () { yield 'Inhaled corticosteroids [Chapter 185].'; },
+  } as unknown as ReturnType<typeof getLLMProvider>);
+  vi.mocked(vectorSearch).mockResolvedValue([passage('Vector passage on inhaled corticosteroids.')]);
+  vi.mocked(keywordSearch).mockResolvedValue([passage('Keyword passage on inhaled corticosteroids.')]);
+});
+
+describe('ragPipeline hybrid retrieval', () => {
+  it('neither embeds nor runs vector search at weight 0', async () => {
+    const events = await run({ retrievalMode: 'hybrid', hybridWeight: 0 });
+
+    expect(embed).not.toHaveBeenCalled();
+    expect(vectorSearch).not.toHaveBeenCalled();
+    expect(keywordSearch).toHaveBeenCalledTimes(1);
+    expect(events.some(event => event.type === 'status' && event.stage === 'embedding')).toBe(false);
+    // Keyword hits carry no similarity but still reach the answer
+    expect(events.find(event => event.type === 'citations')).toBeDefined();
+  });
+
+  it('filters keyword hits by the patient\'s age group like vector hits', async () => {
+    const patientContext = { age: { value: 3, unit: 'months' as const } };
+    await run({ retrievalMode: 'hybrid', hybridWeight: 0 }, undefined, { patientContext });
+    await run({ retrievalMode: 'vector' }, undefined, { patientContext });
+
+    const keywordFilter = vi.mocked(keywordSearch).mock.calls[0][1]?.ageGroups;
+    expect(keywordFilter).toEqual(getAgeGroups(patientContext));
+    expect(keywordFilter).toEqual(vi.mocked(vectorSearch).mock.calls[0][1]?.ageGroups);
+  });
+
+  it('skips keyword search at weight 1 and in vector mode', async () => {
+    await run({ retrievalMode: 'hybrid', hybridWeight: 1 });
+    await run({ retrievalMode: 'vector', hybridWeight: 0 });
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(vectorSearch).toHaveBeenCalledTimes(2);
+    expect(keywordSearch).not.toHaveBeenCalled();
+  });
+});
+
+describe('ragPipeline follow-ups', () => {
+  const history = [
+    { role: 'user' as const, content: 'Which controller is preferred in persistent asthma?' },
+    { role: 'assistant' as const, content: 'Inhaled corticosteroids [Chapter 185].' },
+  ];
+
+  it('answers a follow-up that opens with an acknowledgement', async () => {
+    const events = await run({}, 'Okay and in infants?', { history });
+
+    expect(condense).toHaveBeenCalledTimes(1);
+    expect(events).toContainEqual({ type: 'route', route: expect.objectContaining({ route: 'rag' }) });
+  });
+
+  it('declines bare thanks without rewriting it', async () => {
+    const events = await run({}, 'Thanks!', { history });
+
+    expect(condense).not.toHaveBeenCalled();
+    expect(vectorSearch).not.toHaveBeenCalled();
+    expect(events.find(event => event.type === 'complete')).toMatchObject({ result: { route: { route: 'out-of-scope' } } });
+  });
+});
+
+describe('ragPipeline dosing', () => {
+  const paracetamol = { drug_name: 'Paracetamol', dosage: '10-15 mg/kg every 4-6 hours (max 1 g/dose)' };
+  const answerText = (events: RAGEvent[]) => {
+    const complete = events.find(event => event.type === 'complete');
+    return complete?.type === 'complete' ? complete.result.response : '';
+  };
+
+  beforeEach(() => {
+    vi.mocked(searchDrugDosages).mockResolvedValue([paracetamol]);
+  });
+
+  it('calculates the dose for the patient context weight', async () => {
+    const events = await run({}, 'Paracetamol dose?', { patientContext: { weightKg: 20 } });
+
+    expect(answerText(events)).toContain('**Dose for 20 kg:** 200–300 mg per dose');
+  });
+
+  it('answers with a note instead of failing when the weight is beyond the calculator', async () => {
+    const events = await run({}, 'Paracetamol dose?', { patientContext: { weightKg: 160 } });
+
+    expect(events.some(event => event.type === 'error')).toBe(false);
+    expect(answerText(events)).toContain('**Recommended:** 10-15 mg/kg');
+    expect(answerText(events)).toContain('160 kg is above the 150 kg the dose calculator supports');
+  });
+});
@@ -3,9 +3,18 @@
  * Orchestrates vector search, context assembly, and LLM generation
  */
 
-import { generateEmbedding } from './embeddings';
-import { streamChatCompletion, createSystemPrompt } from './mistral';
-import { EmbeddingResult, Citation, ChatMode } from '../types';
+import { getEmbeddingProvider } from './embeddings';
+import { hasOfflinePack, isOffline, searchOfflinePack } from './offlinePack';
+import { createSystemPrompt, createCondenseQuestionPrompt } from './mistral';
+import { getLLMProvider, LLMProvider } from './llm';
+import { verifyCitations } from './verification';
+import { getReranker, maximalMarginalRelevance, Reranker } from './rerank';
+import { getAgeGroups } from './patientContext';
+import { DrugDosageRecord, extractDrugQuery, extractWeightKg, formatDosingAnswer } from './dosing';
+import { CALCULATORS, formatCalculatorAnswer } from './calculators';
+import { classifyQuery, createOutOfScopeResponse, isSmallTalk } from './router';
+import { formatCitationLabel } from './markdown';
+import { EmbeddingResult, Citation, ChatMode, Message, CitationVerification, LLMSettings, EmbeddingProviderId, RerankerId, PatientContext, RouteDecision, NelsonEdition } from '../types';
 
 export interface RAGConfig {
   vectorProvider: 'supabase' | 'mongodb';
@@ -14,15 +23,63 @@ export interface RAGConfig {
   maxCitations: number;
   includeReferences: boolean;
   clinicalFocus: boolean;
+  maxHistoryTokens: number;
+  retrievalMode: 'vector' | 'hybrid';
+  hybridWeight: number; // Vector share of the fused ranking (0 = keyword only, 1 = vector only)
+  reranker: RerankerId;
+  minRerankScore: number; // Passages the reranker scores below this are dropped
+  mmrLambda: number; // Relevance vs. diversity trade-off (1 = relevance only)
+  llm: Partial<LLMSettings>;
+  embeddingProvider?: EmbeddingProviderId;
+  preferredEdition?: NelsonEdition; // Search this edition first, then all editions if it has nothing
+}
+
+/**
+ * A prior turn of the current chat, oldest first
+ */
+export type ConversationTurn = Pick<Message, 'role' | 'content'>;
+
+export interface RAGRunOptions {
+  signal?: AbortSignal;
+  history?: ConversationTurn[];
+  patientContext?: PatientContext;
+}
+
+/**
+ * Metadata filters applied to retrieval (only MongoDB documents carry age_groups)
+ */
+interface SearchFilters {
+  ageGroups?: string[];
+  edition?: NelsonEdition;
 }
 
 export interface RAGResult {
   response: string;
   citations: Citation[];
   sources: EmbeddingResult[];
-  confidence: number;
+  confidence: number; // Grounding score from citation verification (0-1)
+  verification?: CitationVerification;
+  route?: RouteDecision;
 }
 
+/**
+ * Pipeline stages reported through status events
+ */
+export type RAGStage = 'rewriting' | 'lookup' | 'calculating' | 'embedding' | 'searching' | 'reranking' | 'generating';
+
+/**
+ * Events yielded by the RAG pipeline. Status events describe progress only and
+ * must never be treated as answer text; tokens are the model output.
+ */
+export type RAGEvent =
+  | { type: 'status'; stage: RAGStage; message: string; timestamp: number }
+  | { type: 'route'; route: RouteDecision }
+  | { type: 'token'; content: string }
+  | { type: 'citations'; citations: Citation[] }
+  | { type: 'sources'; sources: EmbeddingResult[] }
+  | { type: 'error'; message: string }
+  | { type: 'complete'; result: RAGResult };
+
 /**
  * Default RAG configuration
  */
@@ -32,81 +89,309 @@ const DEFAULT_RAG_CONFIG: RAGConfig = {
   similarityThreshold: 0.7,
   maxCitations: 10,
   includeReferences: true,
-  clinicalFocus: false
+  clinicalFocus: false,
+  maxHistoryTokens: 1500,
+  retrievalMode: 'hybrid',
+  hybridWeight: 0.5,
+  reranker: 'none',
+  minRerankScore: 0.1,
+  mmrLambda: 0.7,
+  llm: {}
 };
 
+// With a reranker judging relevance, retrieval can cast a wider net
+const RERANK_CANDIDATE_THRESHOLD = 0.5;
+
+// Passages quoted when no language model can be reached
+const PASSAGE_ANSWER_COUNT = 3;
+
+const EMPTY_RESULT: RAGResult = { response: '', citations: [], sources: [], confidence: 0 };
+
+function statusEvent(stage: RAGStage, message: string): RAGEvent {
+  return { type: 'status', stage, message, timestamp: Date.now() };
+}
+
+/**
+ * Answer without retrieval or generation: a dosing lookup, calculator or out-of-scope reply
+ */
+function* answerDirectly(route: RouteDecision, response: string): Generator<RAGEvent> {
+  yield { type: 'route', route };
+  yield { type: 'token', content: response };
+  yield { type: 'complete', result: { ...EMPTY_RESULT, response, confidence: route.route === 'out-of-scope' ? 0 : 1, route } };
+}
+
 /**
  * Main RAG pipeline function
  */
 export async function* ragPipeline(
   query: string,
   mode: ChatMode = 'academic',
-  config: Partial<RAGConfig> = {}
-): AsyncGenerator<{ type: 'chunk' | 'citations' | 'complete'; data: any }> {
+  config: Partial<RAGConfig> = {},
+  options: RAGRunOptions = {}
+): AsyncGenerator<RAGEvent> {
   const ragConfig = { ...DEFAULT_RAG_CONFIG, ...config };
+  const { signal, history = [], patientContext } = options;
+  const llm = getLLMProvider(ragConfig.llm);
+  const historyWindow = selectHistoryWindow(history, ragConfig.maxHistoryTokens);
 
   try {
-    // Step 1: Generate query embedding
-    yield { type: 'chunk', data: 'Analyzing your question...' };
-    
-    const queryEmbedding = await generateEmbedding(query);
+    // Greetings and off-topic questions are declined before any retrieval. A follow-up
+    // ("and in infants?") is only judged once rewritten, unless it is bare small talk.
+    const initialRoute = classifyQuery(query);
+    if (initialRoute.route === 'out-of-scope' && (historyWindow.length === 0 || isSmallTalk(query))) {
+      yield* answerDirectly(initialRoute, createOutOfScopeResponse(initialRoute));
+      return;
+    }
+
+    // Step 1: Rewrite follow-ups into a standalone question for retrieval
+    let searchQuery = query;
+    if (historyWindow.length > 0) {
+      yield statusEvent('rewriting', 'Understanding your follow-up...');
+      searchQuery = await condenseQuestion(llm, query, historyWindow, signal);
+    }
+
+    // Route the standalone question to a specialised handler where one applies
+    let route = historyWindow.length > 0 ? classifyQuery(searchQuery) : initialRoute;
+    if (route.route === 'out-of-scope') {
+      yield* answerDirectly(route, createOutOfScopeResponse(route));
+      return;
+    }
+    const calculator = CALCULATORS.find(definition => definition.id === route.calculator);
+
+    if (route.route === 'calculator' && calculator) {
+      yield statusEvent('calculating', `Calculating ${calculator.name.toLowerCase()}...`);
+      yield* answerDirectly(route, formatCalculatorAnswer(calculator, searchQuery, patientContext));
+      return;
+    }
+
+    // Dosing questions are answered from the structured dosage records when they match
+    const drugQuery = route.route === 'dosing' ? extractDrugQuery(searchQuery) : '';
+    if (drugQuery) {
+      yield statusEvent('lookup', 'Looking up pediatric dosing...');
+      const records = await searchDrugInformation(drugQuery, { limit: 3 });
+      if (signal?.aborted) return;
+
+      if (records.length > 0) {
+        const response = formatDosingAnswer(records, extractWeightKg(searchQuery) ?? patientContext?.weightKg);
+        yield* answerDirectly(route, response);
+        return;
+      }
+    }
+
+    if (route.route !== 'rag') {
+      route = { route: 'rag', reason: 'No dosage record matched, answered from the textbook' };
+    }
+    yield { type: 'route', route };
+
+    // Step 2: Generate query embedding (keyword-only retrieval doesn't need one)
+    let queryEmbedding: number[] | null = null;
+    if (retrievalLegs(ragConfig).vector) {
+      yield statusEvent('embedding', 'Analyzing your question...');
+      queryEmbedding = await embedQuery(searchQuery, ragConfig, signal);
+    }
     
-    // Step 2: Perform vector search
-    yield { type: 'chunk', data: 'Searching medical knowledge base...' };
+    // Step 3: Perform vector (and keyword) search
+    yield statusEvent('searching', 'Searching medical knowledge base...');
     
-    const searchResults = await performVectorSearch(
-      queryEmbedding,
-      ragConfig,
-      mode
+    const reranker = getReranker(ragConfig.reranker);
+    const retrievalConfig = reranker
+      ? { ...ragConfig, similarityThreshold: Math.min(ragConfig.similarityThreshold, RERANK_CANDIDATE_THRESHOLD) }
+      : ragConfig;
+
+    const filters: SearchFilters = { ageGroups: getAgeGroups(patientContext), edition: ragConfig.preferredEdition };
+    let searchResults = await performSearch(searchQuery, queryEmbedding, retrievalConfig, mode, filters, signal);
+
+    // The preferred edition may not cover the topic: widen to every indexed edition
+    if (searchResults.length === 0 && filters.edition) {
+      searchResults = await performSearch(searchQuery, queryEmbedding, retrievalConfig, mode, { ...filters, edition: undefined }, signal);
+    }
+
+    // Step 4: Filter and rank results, reranking a larger candidate pool when enabled
+    let rankedResults = filterSearchResults(
+      searchResults,
+      retrievalConfig,
+      reranker ? ragConfig.maxCitations * 2 : ragConfig.maxCitations
     );
 
-    // Step 3: Filter and rank results
-    const filteredResults = filterSearchResults(searchResults, ragConfig);
+    if (reranker && rankedResults.length > 0) {
+      yield statusEvent('reranking', 'Ranking the most relevant passages...');
+      rankedResults = await rerankResults(reranker, searchQuery, rankedResults, ragConfig, signal);
+    }
+
+    const filteredResults = diversifyResults(rankedResults, ragConfig);
     
     if (filteredResults.length === 0) {
-      yield { type: 'chunk', data: "I couldn't find relevant information in the medical knowledge base. Please try rephrasing your question or being more specific." };
-      yield { type: 'complete', data: null };
+      const response = "I couldn't find relevant information in the medical knowledge base. Please try rephrasing your question or being more specific.";
+      yield { type: 'token', content: response };
+      yield { type: 'complete', result: { ...EMPTY_RESULT, response, route } };
       return;
     }
 
-    // Step 4: Extract citations
+    yield { type: 'sources', sources: filteredResults };
+
+    // Step 5: Extract citations
     const citations = extractCitations(filteredResults, ragConfig);
-    yield { type: 'citations', data: citations };
+    yield { type: 'citations', citations };
 
-    // Step 5: Assemble context
+    // Step 6: Assemble context
     const context = assembleContext(filteredResults, ragConfig);
     
-    // Step 6: Generate system prompt
+    // Step 7: Generate system prompt
     const systemPrompt = createSystemPrompt({
       includeReferences: ragConfig.includeReferences,
       clinicalFocus: ragConfig.clinicalFocus,
+      patientContext,
     });
 
-    // Step 7: Stream LLM response
-    yield { type: 'chunk', data: 'Generating response...' };
+    // Step 8: Stream LLM response
+    yield statusEvent('generating', 'Generating response...');
     
     const messages = [
       { role: 'system', content: systemPrompt },
+      ...historyWindow.map(turn => ({ role: turn.role, content: turn.content })),
       { role: 'user', content: `Context from Nelson Textbook of Pediatrics:\n${context}\n\nUser Question: ${query}\n\nPlease provide a comprehensive, evidence-based answer with appropriate citations.` }
     ];
 
     // Stream the response
-    for await (const chunk of streamChatCompletion(messages)) {
-      yield { type: 'chunk', data: chunk };
+    let response = '';
+    try {
+      for await (const chunk of llm.streamChatCompletion(messages, { signal })) {
+        response += chunk;
+        yield { type: 'token', content: chunk };
+      }
+    } catch (error) {
+      if (signal?.aborted || response) throw error;
+
+      // No model reachable (e.g. offline): the retrieved passages are still worth showing
+      console.warn('Language model unavailable, answering with the retrieved passages:', error);
+      route = { route: 'rag', reason: 'Language model unreachable, showing the retrieved passages' };
+      yield { type: 'route', route };
+      response = formatPassageAnswer(filteredResults);
+      yield { type: 'token', content: response };
     }
 
-    yield { type: 'complete', data: { citations, sources: filteredResults } };
+    // Step 9: Check every cited chapter against what was actually retrieved
+    const verification = verifyCitations(response, filteredResults, ragConfig.includeReferences);
+
+    yield {
+      type: 'complete',
+      result: {
+        response,
+        citations,
+        sources: filteredResults,
+        confidence: verification.groundingScore,
+        verification,
+        route
+      }
+    };
 
   } catch (error) {
+    // Aborted by the caller: stop quietly, the caller keeps any partial answer
+    if (signal?.aborted) return;
+
     console.error('RAG Pipeline error:', error);
     yield { 
-      type: 'chunk', 
-      data: `I encountered an error while processing your question: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.` 
+      type: 'error', 
+      message: `I encountered an error while processing your question: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.` 
     };
-    yield { type: 'complete', data: null };
+    yield { type: 'complete', result: EMPTY_RESULT };
+  }
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English medical text)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Keep the most recent turns that fit within the token budget
+ */
+function selectHistoryWindow(
+  history: ConversationTurn[],
+  maxTokens: number
+): ConversationTurn[] {
+  const window: ConversationTurn[] = [];
+  let usedTokens = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = history[i];
+    if (!turn.content.trim()) continue;
+
+    const tokens = estimateTokens(turn.content);
+    if (usedTokens + tokens > maxTokens) break;
+
+    window.unshift(turn);
+    usedTokens += tokens;
+  }
+
+  // Never open the window on an orphaned assistant reply
+  while (window.length > 0 && window[0].role !== 'user') {
+    window.shift();
+  }
+
+  return window;
+}
+
+/**
+ * Rewrite a follow-up question into a standalone question using chat history
+ */
+async function condenseQuestion(
+  llm: LLMProvider,
+  query: string,
+  history: ConversationTurn[],
+  signal?: AbortSignal
+): Promise<string> {
+  try {
+    const rewritten = await llm.getChatCompletion(createCondenseQuestionPrompt(history, query), { signal });
+    return rewritten.trim() || query;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+
+    console.warn('Question rewrite failed, searching with original query:', error);
+    return query;
   }
 }
 
+/**
+ * Embed the search query, switching to the on-device model when the remote
+ * provider can't be reached and an offline pack is installed
+ */
+async function embedQuery(query: string, config: RAGConfig, signal?: AbortSignal): Promise<number[]> {
+  const provider = getEmbeddingProvider(config.embeddingProvider);
+  if (provider.id === 'local') {
+    return provider.embed(query, signal);
+  }
+
+  if (isOffline() && await hasOfflinePack()) {
+    return getEmbeddingProvider('local').embed(query, signal);
+  }
+
+  try {
+    return await provider.embed(query, signal);
+  } catch (error) {
+    if (signal?.aborted || !(await hasOfflinePack())) throw error;
+
+    console.warn('Embedding provider failed, using the on-device model:', error);
+    return getEmbeddingProvider('local').embed(query, signal);
+  }
+}
+
+/**
+ * Search the downloaded offline pack, or null when none is installed
+ */
+async function performOfflineSearch(
+  queryEmbedding: number[],
+  config: RAGConfig,
+  filters: SearchFilters
+): Promise<EmbeddingResult[] | null> {
+  if (!(await hasOfflinePack())) return null;
+
+  const results = await searchOfflinePack(queryEmbedding, config.maxCitations * 2, config.similarityThreshold, filters.edition);
+  return results.map(toEmbeddingResult);
+}
+
 /**
  * Perform vector search using configured provider
  */
@@ -118,6 +403,7 @@ function toEmbeddingResult(searchResult: any): EmbeddingResult {
       text: searchResult.content,
       metadata: {
         chapter: searchResult.chapter || searchResult.metadata?.chapter || 'Unknown',
+        edition: searchResult.edition,
         page: searchResult.page_number || searchResult.metadata?.page || 0,
         section: searchResult.section || searchResult.metadata?.section || 'Unknown',
         title: searchResult.metadata?.title || ''
@@ -141,11 +427,11 @@ function toEmbeddingResult(searchResult: any): EmbeddingResult {
     text: searchResult.content,
     metadata: {
       chapter: searchResult.metadata?.chapter || 'Unknown',
+      edition: searchResult.metadata?.edition,
       page: parseInt((searchResult.metadata?.pageRange || '0').toString().split('-')[0] || '0', 10) || 0,
       section: searchResult.metadata?.section || 'Unknown',
       title: searchResult.metadata?.title || ''
     },
-    // @ts-ignore
     similarity: searchResult.similarity || 0,
     // @ts-ignore
     content: searchResult.content,
@@ -160,59 +446,255 @@ function toEmbeddingResult(searchResult: any): EmbeddingResult {
 async function performVectorSearch(
   queryEmbedding: number[],
   config: RAGConfig,
-  mode: ChatMode
+  mode: ChatMode,
+  filters: SearchFilters,
+  signal?: AbortSignal
 ): Promise<EmbeddingResult[]> {
   const limit = config.maxCitations * 2;
   const threshold = config.similarityThreshold;
 
+  // No network: go straight to the offline pack rather than waiting on both providers to fail
+  if (isOffline()) {
+    const offlineResults = await performOfflineSearch(queryEmbedding, config, filters);
+    if (offlineResults) return offlineResults;
+  }
+
   try {
     if (config.vectorProvider === 'mongodb') {
       const { vectorSearch: mongoVectorSearch } = await import('./mongodb');
       const mongoResults = await mongoVectorSearch(queryEmbedding, {
         limit,
         medicalSpecialty: mode === 'clinical' ? 'pediatrics' : undefined,
-        minConfidenceScore: threshold
+        minConfidenceScore: threshold,
+        ageGroups: filters.ageGroups,
+        edition: filters.edition,
+        signal
       });
       return mongoResults.map(toEmbeddingResult);
     } else {
       const { vectorSearch: supabaseVectorSearch } = await import('./supabase');
-      const supabaseResults = await supabaseVectorSearch(queryEmbedding, limit, threshold);
+      const supabaseResults = await supabaseVectorSearch(queryEmbedding, limit, threshold, signal, filters.edition);
       return supabaseResults.map(toEmbeddingResult);
     }
   } catch (error) {
+    if (signal?.aborted) throw error;
+
     console.warn(`Primary vector provider (${config.vectorProvider}) failed, trying fallback:`, error);
     try {
       if (config.vectorProvider === 'mongodb') {
         const { vectorSearch: supabaseVectorSearch } = await import('./supabase');
-        const supabaseResults = await supabaseVectorSearch(queryEmbedding, limit, threshold);
+        const supabaseResults = await supabaseVectorSearch(queryEmbedding, limit, threshold, signal, filters.edition);
         return supabaseResults.map(toEmbeddingResult);
       } else {
         const { vectorSearch: mongoVectorSearch } = await import('./mongodb');
         const mongoResults = await mongoVectorSearch(queryEmbedding, {
           limit,
           medicalSpecialty: mode === 'clinical' ? 'pediatrics' : undefined,
-          minConfidenceScore: threshold
+          minConfidenceScore: threshold,
+          ageGroups: filters.ageGroups,
+          edition: filters.edition,
+          signal
         });
         return mongoResults.map(toEmbeddingResult);
       }
     } catch (fallbackError) {
+      if (signal?.aborted) throw fallbackError;
+
       console.error('Both vector providers failed:', fallbackError);
+      const offlineResults = await performOfflineSearch(queryEmbedding, config, filters);
+      if (offlineResults) return offlineResults;
+
       throw new Error('Vector search unavailable. Please try again later.');
     }
   }
 }
 
+/**
+ * Perform keyword search using the configured provider (no fallback, it only
+ * supplements vector search)
+ */
+async function performKeywordSearch(
+  query: string,
+  config: RAGConfig,
+  mode: ChatMode,
+  filters: SearchFilters,
+  signal?: AbortSignal
+): Promise<EmbeddingResult[]> {
+  const limit = config.maxCitations * 2;
+
+  if (config.vectorProvider === 'mongodb') {
+    const { keywordSearch: mongoKeywordSearch } = await import('./mongodb');
+    const mongoResults = await mongoKeywordSearch(query, {
+      limit,
+      medicalSpecialty: mode === 'clinical' ? 'pediatrics' : undefined,
+      ageGroups: filters.ageGroups,
+      edition: filters.edition,
+      signal
+    });
+    return mongoResults.map(toEmbeddingResult);
+  }
+
+  const { keywordSearch: supabaseKeywordSearch } = await import('./supabase');
+  const supabaseResults = await supabaseKeywordSearch(query, limit, signal, filters.edition);
+  return supabaseResults.map(toEmbeddingResult);
+}
+
+/**
+ * Which retrieval legs run: hybrid mode at weight 0 or 1 leaves one out entirely.
+ * Keyword search has no offline counterpart, so offline retrieval is vector only.
+ */
+function retrievalLegs(config: RAGConfig): { vector: boolean; keyword: boolean } {
+  if (config.retrievalMode !== 'hybrid' || isOffline()) {
+    return { vector: true, keyword: false };
+  }
+  return { vector: config.hybridWeight > 0, keyword: config.hybridWeight < 1 };
+}
+
+/**
+ * Retrieve candidates: vector search alone, keyword search alone, or both fused
+ * with reciprocal rank fusion in hybrid mode
+ * @param queryEmbedding - Null when only the keyword leg runs
+ */
+async function performSearch(
+  query: string,
+  queryEmbedding: number[] | null,
+  config: RAGConfig,
+  mode: ChatMode,
+  filters: SearchFilters,
+  signal?: AbortSignal
+): Promise<EmbeddingResult[]> {
+  if (!queryEmbedding) {
+    // Fused alone so the hits are flagged as keyword matches for the similarity threshold
+    const keywordResults = await performKeywordSearch(query, config, mode, filters, signal);
+    return reciprocalRankFusion([], keywordResults, 0);
+  }
+
+  if (!retrievalLegs(config).keyword) {
+    return performVectorSearch(queryEmbedding, config, mode, filters, signal);
+  }
+
+  const [vector, keyword] = await Promise.allSettled([
+    performVectorSearch(queryEmbedding, config, mode, filters, signal),
+    performKeywordSearch(query, config, mode, filters, signal)
+  ]);
+
+  signal?.throwIfAborted();
+
+  if (vector.status === 'rejected') {
+    if (keyword.status === 'fulfilled' && keyword.value.length > 0) {
+      console.warn('Vector search failed, using keyword results only:', vector.reason);
+      return reciprocalRankFusion([], keyword.value, config.hybridWeight);
+    }
+    throw vector.reason;
+  }
+
+  if (keyword.status === 'rejected') {
+    console.warn('Keyword search failed, using vector results only:', keyword.reason);
+    return vector.value;
+  }
+
+  return reciprocalRankFusion(vector.value, keyword.value, config.hybridWeight);
+}
+
+const RRF_K = 60; // Standard RRF damping constant
+
+/**
+ * Fuse two ranked lists: score = w / (k + vectorRank) + (1 - w) / (k + keywordRank).
+ * Keyword-only hits carry no cosine similarity, so they are flagged to bypass
+ * the similarity threshold.
+ */
+function reciprocalRankFusion(
+  vectorResults: EmbeddingResult[],
+  keywordResults: EmbeddingResult[],
+  vectorWeight: number
+): EmbeddingResult[] {
+  const weight = Math.min(1, Math.max(0, vectorWeight));
+  const fused = new Map<string, EmbeddingResult & { fusionScore: number }>();
+
+  vectorResults.forEach((result, index) => {
+    fused.set(result.text, { ...result, fusionScore: weight / (RRF_K + index + 1) });
+  });
+
+  keywordResults.forEach((result, index) => {
+    const score = (1 - weight) / (RRF_K + index + 1);
+    const existing = fused.get(result.text);
+
+    if (existing) {
+      existing.fusionScore += score;
+      existing.keywordMatch = true;
+    } else {
+      fused.set(result.text, { ...result, similarity: 0, keywordMatch: true, fusionScore: score });
+    }
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.fusionScore - a.fusionScore);
+}
+
+/**
+ * Best available relevance score: reranker, then fused rank, then cosine similarity
+ */
+function rankingScore(result: EmbeddingResult): number {
+  return result.rerankScore ?? result.fusionScore ?? result.similarity ?? 0;
+}
+
 /**
  * Filter and rank search results
  */
 function filterSearchResults(
   results: EmbeddingResult[],
-  config: RAGConfig
+  config: RAGConfig,
+  limit: number = config.maxCitations
 ): EmbeddingResult[] {
   return results
-    .filter(result => (result as any).similarity >= config.similarityThreshold)
-    .sort((a, b) => (b as any).similarity - (a as any).similarity)
-    .slice(0, config.maxCitations);
+    .filter(result => result.keywordMatch || (result.similarity ?? 0) >= config.similarityThreshold)
+    .sort((a, b) => rankingScore(b) - rankingScore(a))
+    .slice(0, limit);
+}
+
+/**
+ * Reorder candidates by cross-encoder relevance to the query. Falls back to
+ * the retrieval order (and threshold) if the reranker is unavailable.
+ */
+async function rerankResults(
+  reranker: Reranker,
+  query: string,
+  candidates: EmbeddingResult[],
+  config: RAGConfig,
+  signal?: AbortSignal
+): Promise<EmbeddingResult[]> {
+  try {
+    const scores = await reranker.score(query, candidates.map(result => result.text), signal);
+
+    return candidates
+      .map((result, index) => ({ ...result, rerankScore: scores[index] }))
+      .filter(result => result.rerankScore >= config.minRerankScore)
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+
+    console.warn(`Reranker (${reranker.id}) failed, keeping retrieval order:`, error);
+    return filterSearchResults(candidates, config);
+  }
+}
+
+/**
+ * Trim to the citation budget, skipping near-duplicate passages (MMR)
+ */
+function diversifyResults(
+  results: EmbeddingResult[],
+  config: RAGConfig
+): EmbeddingResult[] {
+  if (config.mmrLambda >= 1) {
+    return results.slice(0, config.maxCitations);
+  }
+
+  return maximalMarginalRelevance(
+    results,
+    rankingScore,
+    result => result.text,
+    config.mmrLambda,
+    config.maxCitations
+  );
 }
 
 /**
@@ -226,13 +708,15 @@ function extractCitations(
 
   return results.slice(0, config.maxCitations).map((r, idx) => {
     const chapter = (r as any).metadata?.chapter || (r as any).source?.chapter || 'Unknown';
+    const edition = r.metadata?.edition;
     const page = (r as any).metadata?.page || (r as any).source?.page || 0;
     const title = (r as any).metadata?.title || 'Unknown';
-    const similarity = (r as any).similarity ?? 0;
+    const similarity = r.similarity ?? 0;
 
     return {
       id: `citation-${idx}`,
       chapter: typeof chapter === 'string' && chapter.startsWith('Chapter') ? chapter : `Chapter ${chapter}`,
+      edition,
       pageRange: page ? String(page) : 'N/A',
       title,
       excerpt: (r as any).content ? String((r as any).content).slice(0, 200) + '...' : '',
@@ -254,8 +738,8 @@ function assembleContext(
   for (const result of results) {
     const meta = (result as any).metadata || {};
     const content = (result as any).content || result.text;
-    const chapter = meta.chapter || (result as any).source?.chapter || 'Unknown';
-    const resultText = `[Source: Nelson Ch. ${chapter}]\n${content}\n\n`;
+    const chapter = String(meta.chapter || (result as any).source?.chapter || 'Unknown');
+    const resultText = `[Source: ${formatCitationLabel({ chapter, edition: meta.edition })}]\n${content}\n\n`;
 
     if (currentLength + resultText.length > config.maxContextLength) break;
 
@@ -266,6 +750,23 @@ function assembleContext(
   return context.trim();
 }
 
+/**
+ * Answer made of the retrieved passages themselves, for when no language model is reachable
+ */
+function formatPassageAnswer(results: EmbeddingResult[]): string {
+  const passages = results.slice(0, PASSAGE_ANSWER_COUNT).map(result => {
+    const meta = result.metadata;
+    const label = formatCitationLabel({ chapter: String(meta.chapter), edition: meta.edition });
+    const citation = `[${label}${meta.page ? `:${meta.page}` : ''}]`;
+    const heading = [meta.title, meta.section].filter(part => part && part !== 'Unknown').join(' — ');
+    const quote = result.text.trim().split('\n').map(line => `> ${line}`).join('\n');
+
+    return `**${heading || label}** ${citation}\n\n${quote}`;
+  });
+
+  return `The language model can't be reached, so here are the most relevant passages from the Nelson Textbook of Pediatrics, without a summary. Read them in full before relying on them.\n\n${passages.join('\n\n')}`;
+}
+
 /**
  * Search for drug dosage information
  */
@@ -276,7 +777,7 @@ export async function searchDrugInformation(
     route?: string;
     limit?: number;
   } = {}
-): Promise<any[]> {
+): Promise<DrugDosageRecord[]> {
   try {
     const { searchDrugDosages } = await import('./mongodb');
     return await searchDrugDosages(drugQuery, options);
@@ -294,13 +795,31 @@ export function getRAGConfig(preferences: {
   includeReferences?: boolean;
   clinicalFocus?: boolean;
   vectorProvider?: 'supabase' | 'mongodb';
+  llmProvider?: LLMSettings['provider'];
+  llmBaseUrl?: string;
+  llmModel?: string;
+  embeddingProvider?: EmbeddingProviderId;
+  reranker?: RerankerId;
+  preferredEdition?: NelsonEdition | null;
 }): Partial<RAGConfig> {
   return {
     maxContextLength: preferences.detailedResponses ? 6000 : 4000,
     includeReferences: preferences.includeReferences ?? true,
     clinicalFocus: preferences.clinicalFocus ?? false,
     vectorProvider: preferences.vectorProvider ?? 'supabase',
-    maxCitations: preferences.detailedResponses ? 15 : 10
+    maxCitations: preferences.detailedResponses ? 15 : 10,
+    llm: {
+      provider: preferences.llmProvider,
+      // Endpoint and model overrides only apply to self-hosted servers
+      ...(preferences.llmProvider === 'openai-compatible' && {
+        baseUrl: preferences.llmBaseUrl || undefined,
+        model: preferences.llmModel || undefined
+      }),
+      maxTokens: preferences.detailedResponses ? 2000 : 1000
+    },
+    embeddingProvider: preferences.embeddingProvider,
+    reranker: preferences.reranker,
+    preferredEdition: preferences.preferredEdition ?? undefined
   };
 }
 
@@ -314,7 +833,7 @@ export async function validateRAGSystem(): Promise<{
     embeddings: boolean;
     supabase: boolean;
     mongodb: boolean;
-    mistral: boolean;
+    llm: boolean;
   };
 }> {
   const issues: string[] = [];
@@ -322,12 +841,12 @@ export async function validateRAGSystem(): Promise<{
     embeddings: false,
     supabase: false,
     mongodb: false,
-    mistral: false
+    llm: false
   };
 
   // Test embeddings
   try {
-    await generateEmbedding('test');
+    await getEmbeddingProvider().embed('test');
     providers.embeddings = true;
   } catch (error) {
     issues.push('Embeddings service unavailable');
@@ -349,17 +868,16 @@ export async function validateRAGSystem(): Promise<{
     issues.push('MongoDB connection failed');
   }
 
-  // Test Mistral
+  // Test the configured LLM provider
   try {
-    const { healthCheck: mistralHealth } = await import('./mistral');
-    providers.mistral = await mistralHealth();
+    providers.llm = await getLLMProvider().healthCheck();
   } catch (error) {
-    issues.push('Mistral API unavailable');
+    issues.push('LLM provider unavailable');
   }
 
   const isHealthy = providers.embeddings && 
                    (providers.supabase || providers.mongodb) && 
-                   providers.mistral;
+                   providers.llm;
 
   return { isHealthy, issues, providers };
 }
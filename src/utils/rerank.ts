@@ -0,0 +1,163 @@
+/**
+ * Reranking for retrieved passages
+ * Cross-encoder relevance scores (Hugging Face or on-device) and MMR diversity
+ */
+
+import { RerankerId } from '@/types';
+import { isProxyMode, postToProxy } from './apiConfig';
+import { generateLocalRerankScores, isLocalEmbeddingSupported } from './localEmbeddings';
+
+const HF_API_KEY = import.meta.env.VITE_HF_API_KEY;
+const HF_RERANKER_MODEL = import.meta.env.VITE_HF_RERANKER_MODEL || 'cross-encoder/ms-marco-MiniLM-L-6-v2';
+const HF_RERANKER_URL = `https://api-inference.huggingface.co/models/${HF_RERANKER_MODEL}`;
+
+export const DEFAULT_RERANKER: RerankerId =
+  import.meta.env.VITE_RERANKER === 'remote' || import.meta.env.VITE_RERANKER === 'local'
+    ? import.meta.env.VITE_RERANKER
+    : 'none';
+
+export const RERANKERS: Array<{ id: RerankerId; name: string; description: string }> = [
+  { id: 'none', name: 'Off', description: 'Similarity order' },
+  { id: 'remote', name: 'Hugging Face', description: 'Hosted cross-encoder' },
+  { id: 'local', name: 'On-device', description: 'Runs in the browser' },
+];
+
+export interface Reranker {
+  id: Exclude<RerankerId, 'none'>;
+  /** One 0-1 relevance score per passage, in input order */
+  score: (query: string, texts: string[], signal?: AbortSignal) => Promise<number[]>;
+}
+
+/**
+ * Score (query, passage) pairs with the Hugging Face text-classification API
+ * @param query - The search query
+ * @param texts - Candidate passages
+ * @param signal - Optional signal to abort the request
+ * @returns Promise<number[]> - One relevance score per passage
+ */
+async function scoreRemotely(query: string, texts: string[], signal?: AbortSignal): Promise<number[]> {
+  let data: unknown;
+
+  if (isProxyMode) {
+    data = await postToProxy('/api/rerank', { query, texts }, signal);
+  } else {
+    if (!HF_API_KEY) {
+      throw new Error('Hugging Face API key not configured');
+    }
+
+    const response = await fetch(HF_RERANKER_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${HF_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        inputs: texts.map(text => ({ text: query, text_pair: text })),
+        options: {
+          wait_for_model: true,
+        },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`Hugging Face API error: ${response.status} - ${errorData.error || response.statusText}`);
+    }
+
+    data = await response.json();
+  }
+
+  // Each item is { label, score } or a one-element list of it
+  if (!Array.isArray(data) || data.length !== texts.length) {
+    throw new Error('Unexpected reranker response format');
+  }
+  return data.map(item => (Array.isArray(item) ? item[0]?.score : item?.score) ?? 0);
+}
+
+export const remoteReranker: Reranker = {
+  id: 'remote',
+  score: scoreRemotely,
+};
+
+export const localReranker: Reranker = {
+  id: 'local',
+  score: (query, texts, signal) => {
+    if (!isLocalEmbeddingSupported()) {
+      return Promise.reject(new Error('Local reranking is not supported in this browser'));
+    }
+    return generateLocalRerankScores(query, texts, signal);
+  },
+};
+
+/**
+ * Get the reranker by id, or null when reranking is off
+ */
+export function getReranker(id: RerankerId = DEFAULT_RERANKER): Reranker | null {
+  if (id === 'remote') return remoteReranker;
+  if (id === 'local') return localReranker;
+  return null;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) || []);
+}
+
+/**
+ * Jaccard overlap of the two passages' vocabularies (0-1)
+ */
+function textOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Maximal marginal relevance: greedily pick items that are relevant but not
+ * redundant with what has already been picked
+ * @param items - Candidates, any order
+ * @param relevance - Relevance score of an item (any scale, normalized internally)
+ * @param text - Text used to measure redundancy between items
+ * @param lambda - Trade-off between relevance (1) and diversity (0)
+ * @param limit - Number of items to return
+ */
+export function maximalMarginalRelevance<T>(
+  items: T[],
+  relevance: (item: T) => number,
+  text: (item: T) => string,
+  lambda: number,
+  limit: number
+): T[] {
+  const scores = items.map(relevance);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min || 1;
+
+  const candidates = items.map((item, index) => ({
+    item,
+    relevance: (scores[index] - min) / range,
+    words: wordSet(text(item)),
+  }));
+  const selected: typeof candidates = [];
+
+  while (selected.length < limit && candidates.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    candidates.forEach((candidate, index) => {
+      const redundancy = Math.max(0, ...selected.map(picked => textOverlap(candidate.words, picked.words)));
+      const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(candidates.splice(bestIndex, 1)[0]);
+  }
+
+  return selected.map(candidate => candidate.item);
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { classifyQuery, isSmallTalk } from './router';
+
+describe('classifyQuery', () => {
+  it.each([
+    'hi',
+    'Hello there!',
+    'thanks a lot',
+    'Thank you so much.',
+    'ok thanks',
+    'Good morning, Nelson',
+    'who are you?',
+  ])('declines small talk: %s', message => {
+    expect(classifyQuery(message).route).toBe('out-of-scope');
+  });
+
+  it.each([
+    'OK, what about neonates?',
+    'Thanks, and the dose?',
+    'hey, kawasaki treatment?',
+    'Okay and in infants?',
+  ])('keeps follow-ups that open with a greeting: %s', message => {
+    expect(isSmallTalk(message)).toBe(false);
+    expect(classifyQuery(message).route).not.toBe('out-of-scope');
+  });
+
+  it('declines off-topic questions without a medical term', () => {
+    expect(classifyQuery('Write me a poem about football').route).toBe('out-of-scope');
+  });
+
+  it('routes dose questions to the dosing lookup', () => {
+    expect(classifyQuery('Amoxicillin dose for a 12 kg child with otitis media').route).toBe('dosing');
+  });
+
+  it('answers clinical questions from the textbook', () => {
+    expect(classifyQuery('How is bronchiolitis managed in infants?').route).toBe('rag');
+  });
+});
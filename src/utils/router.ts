@@ -0,0 +1,68 @@
+/**
+ * Query intent router for the chat pipeline
+ * Rule-based so routing is instant, works offline and never costs an LLM call
+ */
+
+import { QueryRoute, RouteDecision } from '../types';
+import { detectCalculator } from './calculators';
+import { isDosingQuestion } from './dosing';
+
+export const ROUTE_LABELS: Record<QueryRoute, string> = {
+  dosing: 'Dosing lookup',
+  calculator: 'Calculator',
+  rag: 'Textbook search',
+  'out-of-scope': 'Out of scope',
+};
+
+// The whole message must be small talk, so "OK, what about neonates?" is still a question
+const SMALL_TALK_PATTERN = /^(?:hi|hello|hey|hiya|good (?:morning|afternoon|evening)|thanks?|thank you|thx|ok(?:ay)?|bye|goodbye|who are you|what can you do)(?:[\s,]+(?:hi|hello|hey|thanks?|thank you|ok(?:ay)?|there|all|everyone|again|so much|very much|a lot|nelson(?:-gpt)?))*[\s!.?]*$/i;
+const OFF_TOPIC_PATTERN = /\b(weather|recipe|cook(?:ing)?|movie|song|lyrics|poem|joke|sports?|football|cricket|stock|crypto|bitcoin|politics|election|javascript|python|programming|code|homework|travel|hotel|restaurant)\b/i;
+const MEDICAL_PATTERN = /\b(child|children|infant|baby|babies|neonat\w*|newborn|pediatric|paediatric|adolescent|toddler|patient|disease|syndrome|symptoms?|signs?|diagnos\w*|treat\w*|therapy|management|fever|infection|vaccin\w*|immuni[sz]\w*|growth|development\w*|milestones?|drug|medication|dose|dosing|clinical|medical|nutrition|feeding|breast\w*|rash|cough|seizures?|asthma|heart|cardiac|renal|kidney|liver|blood|anemia|anaemia)\b/i;
+
+const SMALL_TALK_REASON = 'Greeting or small talk';
+
+/**
+ * Whether a message is only a greeting, thanks or similar, with no question in it
+ */
+export function isSmallTalk(message: string): boolean {
+  return SMALL_TALK_PATTERN.test(message.trim());
+}
+
+/**
+ * Classify a question into the handler that should answer it
+ * @param question - User question (the standalone rewrite for follow-ups)
+ */
+export function classifyQuery(question: string): RouteDecision {
+  const text = question.trim();
+
+  if (isSmallTalk(text)) {
+    return { route: 'out-of-scope', reason: SMALL_TALK_REASON };
+  }
+
+  const medical = MEDICAL_PATTERN.test(text);
+  if (!medical && OFF_TOPIC_PATTERN.test(text)) {
+    return { route: 'out-of-scope', reason: 'Not a pediatric medicine question' };
+  }
+
+  const calculator = detectCalculator(text);
+  if (calculator) {
+    return { route: 'calculator', reason: `${calculator.name} calculation`, calculator: calculator.id };
+  }
+
+  if (isDosingQuestion(text)) {
+    return { route: 'dosing', reason: 'Asks for a drug dose' };
+  }
+
+  return { route: 'rag', reason: 'Clinical question answered from the textbook' };
+}
+
+/**
+ * Reply for questions outside what Nelson-GPT answers
+ */
+export function createOutOfScopeResponse(decision: RouteDecision): string {
+  const intro = decision.reason === SMALL_TALK_REASON
+    ? "I'm Nelson-GPT, a pediatric medicine assistant."
+    : "I can only help with pediatric medicine questions, so I can't answer that one.";
+
+  return `${intro} Ask me about pediatric conditions, drug dosing or calculations such as maintenance fluids, for example "How do I assess respiratory distress in a pediatric patient?"`;
+}
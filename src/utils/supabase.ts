@@ -1,5 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { VectorSearchResult } from '@/types';
+import { Chat, NelsonEdition, VectorSearchResult } from '@/types';
+import { parseEdition } from './editions';
 
 // Supabase client configuration
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -16,20 +17,31 @@ export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKe
  * @param queryEmbedding - The embedding vector for the query
  * @param limit - Maximum number of results to return
  * @param threshold - Minimum similarity threshold (0-1)
+ * @param signal - Optional signal to abort the request
+ * @param edition - Only search chunks from this Nelson edition
  * @returns Array of similar document chunks with metadata
  */
 export async function vectorSearch(
   queryEmbedding: number[],
   limit: number = 10,
-  threshold: number = 0.7
+  threshold: number = 0.7,
+  signal?: AbortSignal,
+  edition?: NelsonEdition
 ): Promise<VectorSearchResult[]> {
   try {
-    const { data, error } = await supabase.rpc('match_documents', {
+    let request = supabase.rpc('match_documents', {
       query_embedding: queryEmbedding,
       match_threshold: threshold,
-      match_count: limit
+      match_count: limit,
+      ...(edition && { filter_edition: edition })
     });
 
+    if (signal) {
+      request = request.abortSignal(signal);
+    }
+
+    const { data, error } = await request;
+
     if (error) {
       console.error('Vector search error:', error);
       throw new Error(`Vector search failed: ${error.message}`);
@@ -40,6 +52,7 @@ export async function vectorSearch(
       content: item.content,
       metadata: {
         chapter: item.metadata.chapter,
+        edition: parseEdition(item.metadata.edition),
         pageRange: item.metadata.page_range,
         section: item.metadata.section,
         title: item.metadata.title
@@ -52,6 +65,56 @@ export async function vectorSearch(
   }
 }
 
+/**
+ * Perform full-text keyword search using Postgres tsvector ranking
+ * @param query - The raw query text
+ * @param limit - Maximum number of results to return
+ * @param signal - Optional signal to abort the request
+ * @param edition - Only search chunks from this Nelson edition
+ * @returns Array of matching document chunks, best match first (similarity holds the text rank)
+ */
+export async function keywordSearch(
+  query: string,
+  limit: number = 10,
+  signal?: AbortSignal,
+  edition?: NelsonEdition
+): Promise<VectorSearchResult[]> {
+  try {
+    let request = supabase.rpc('keyword_search_documents', {
+      query_text: query,
+      match_count: limit,
+      ...(edition && { filter_edition: edition })
+    });
+
+    if (signal) {
+      request = request.abortSignal(signal);
+    }
+
+    const { data, error } = await request;
+
+    if (error) {
+      console.error('Keyword search error:', error);
+      throw new Error(`Keyword search failed: ${error.message}`);
+    }
+
+    return data.map((item: any) => ({
+      id: item.id,
+      content: item.content,
+      metadata: {
+        chapter: item.metadata.chapter,
+        edition: parseEdition(item.metadata.edition),
+        pageRange: item.metadata.page_range,
+        section: item.metadata.section,
+        title: item.metadata.title
+      },
+      similarity: item.rank
+    }));
+  } catch (error) {
+    console.error('Error performing keyword search:', error);
+    throw error;
+  }
+}
+
 /**
  * Store a new document embedding in the database
  * @param content - The text content
@@ -63,6 +126,7 @@ export async function storeEmbedding(
   embedding: number[],
   metadata: {
     chapter: string;
+    edition?: NelsonEdition;
     page: number;
     section: string;
     title: string;
@@ -112,19 +176,32 @@ export async function getDocument(id: string) {
 }
 
 /**
- * Store user chat history
+ * A synced chat as stored in `chat_history`; deleted chats remain as tombstones
+ */
+export interface ChatHistoryRow {
+  user_id: string;
+  chat_id: string;
+  chat_data: Chat | null;
+  updated_at: string;
+  deleted: boolean;
+}
+
+/**
+ * Store user chat history, replacing the stored copy of the same chat
  * @param userId - User ID
- * @param chatData - Chat data to store
+ * @param chat - Chat to store
  */
-export async function storeChatHistory(userId: string, chatData: any) {
+export async function storeChatHistory(userId: string, chat: Chat) {
   try {
     const { error } = await supabase
       .from('chat_history')
-      .insert({
+      .upsert({
         user_id: userId,
-        chat_data: chatData,
-        created_at: new Date().toISOString()
-      });
+        chat_id: chat.id,
+        chat_data: chat,
+        updated_at: new Date(chat.updatedAt).toISOString(),
+        deleted: false
+      }, { onConflict: 'user_id,chat_id' });
 
     if (error) {
       console.error('Error storing chat history:', error);
@@ -137,17 +214,45 @@ export async function storeChatHistory(userId: string, chatData: any) {
 }
 
 /**
- * Retrieve user chat history
+ * Mark a chat deleted so other devices remove it too
+ * @param userId - User ID
+ * @param chatId - Deleted chat
+ * @param deletedAt - When it was deleted
+ */
+export async function deleteChatHistory(userId: string, chatId: string, deletedAt: Date = new Date()) {
+  try {
+    const { error } = await supabase
+      .from('chat_history')
+      .upsert({
+        user_id: userId,
+        chat_id: chatId,
+        chat_data: null,
+        updated_at: deletedAt.toISOString(),
+        deleted: true
+      }, { onConflict: 'user_id,chat_id' });
+
+    if (error) {
+      console.error('Error deleting chat history:', error);
+      throw new Error(`Failed to delete chat history: ${error.message}`);
+    }
+  } catch (error) {
+    console.error('Error deleting chat history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieve user chat history, including deletion tombstones
  * @param userId - User ID
  * @param limit - Maximum number of chats to retrieve
  */
-export async function getChatHistory(userId: string, limit: number = 50) {
+export async function getChatHistory(userId: string, limit: number = 1000): Promise<ChatHistoryRow[]> {
   try {
     const { data, error } = await supabase
       .from('chat_history')
-      .select('*')
+      .select('user_id, chat_id, chat_data, updated_at, deleted')
       .eq('user_id', userId)
-      .order('created_at', { ascending: false })
+      .order('updated_at', { ascending: false })
       .limit(limit);
 
     if (error) {
@@ -162,6 +267,31 @@ export async function getChatHistory(userId: string, limit: number = 50) {
   }
 }
 
+/**
+ * Send a magic sign-in link; the session is picked up when the link reopens the app
+ * @param email - Address to send the link to
+ */
+export async function signInWithEmail(email: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin }
+  });
+
+  if (error) {
+    console.error('Error sending sign-in link:', error);
+    throw new Error(`Failed to send sign-in link: ${error.message}`);
+  }
+}
+
+export async function signOut() {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) {
+    console.error('Error signing out:', error);
+    throw new Error(`Failed to sign out: ${error.message}`);
+  }
+}
+
 /**
  * Health check for Supabase connection
  */
@@ -198,6 +328,7 @@ export async function initializeSchema() {
     content TEXT NOT NULL,
     embedding VECTOR(384), -- Adjust dimension based on your embedding model
     metadata JSONB NOT NULL,
+    content_hash TEXT UNIQUE, -- Set by backend/ingest so re-runs only touch changed chunks
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
   );
   
@@ -209,7 +340,8 @@ export async function initializeSchema() {
   CREATE OR REPLACE FUNCTION match_documents(
     query_embedding VECTOR(384),
     match_threshold FLOAT DEFAULT 0.7,
-    match_count INT DEFAULT 10
+    match_count INT DEFAULT 10,
+    filter_edition INT DEFAULT NULL
   )
   RETURNS TABLE(
     id UUID,
@@ -226,19 +358,60 @@ export async function initializeSchema() {
       1 - (documents.embedding <=> query_embedding) AS similarity
     FROM documents
     WHERE 1 - (documents.embedding <=> query_embedding) > match_threshold
+      AND (filter_edition IS NULL OR (documents.metadata->>'edition')::INT = filter_edition)
     ORDER BY documents.embedding <=> query_embedding
     LIMIT match_count;
   $$;
   
-  -- Create chat history table
+  -- Full-text search column and index for hybrid retrieval
+  ALTER TABLE documents
+    ADD COLUMN fts TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+  CREATE INDEX ON documents USING GIN (fts);
+  
+  -- Create function for keyword search
+  CREATE OR REPLACE FUNCTION keyword_search_documents(
+    query_text TEXT,
+    match_count INT DEFAULT 10,
+    filter_edition INT DEFAULT NULL
+  )
+  RETURNS TABLE(
+    id UUID,
+    content TEXT,
+    metadata JSONB,
+    rank FLOAT
+  )
+  LANGUAGE SQL STABLE
+  AS $$
+    SELECT
+      documents.id,
+      documents.content,
+      documents.metadata,
+      ts_rank_cd(documents.fts, websearch_to_tsquery('english', query_text)) AS rank
+    FROM documents
+    WHERE documents.fts @@ websearch_to_tsquery('english', query_text)
+      AND (filter_edition IS NULL OR (documents.metadata->>'edition')::INT = filter_edition)
+    ORDER BY rank DESC
+    LIMIT match_count;
+  $$;
+  
+  -- Create chat history table (one row per synced chat; deleted chats are kept as tombstones)
   CREATE TABLE chat_history (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
     user_id TEXT NOT NULL,
-    chat_data JSONB NOT NULL,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    chat_id TEXT NOT NULL,
+    chat_data JSONB,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    deleted BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, chat_id)
   );
   
-  -- Create index on user_id and created_at
-  CREATE INDEX idx_chat_history_user_created ON chat_history(user_id, created_at DESC);
+  -- Create index on user_id and updated_at
+  CREATE INDEX idx_chat_history_user_updated ON chat_history(user_id, updated_at DESC);
+  
+  -- Each signed-in user can only read and write their own chats
+  ALTER TABLE chat_history ENABLE ROW LEVEL SECURITY;
+  CREATE POLICY chat_history_owner ON chat_history
+    FOR ALL USING (user_id = auth.uid()::text) WITH CHECK (user_id = auth.uid()::text);
   */
 }
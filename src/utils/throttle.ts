@@ -0,0 +1,60 @@
+/**
+ * Throttling helpers for high-frequency UI/store updates
+ */
+
+export interface Throttled<T extends unknown[]> {
+  (...args: T): void;
+  flush: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Create a trailing-edge throttle that invokes `fn` at most once per `wait` ms.
+ * The most recent arguments always win; `flush` runs any pending call immediately.
+ * @param fn - Function to throttle
+ * @param wait - Minimum interval between invocations (in milliseconds)
+ * @returns Throttled function with flush/cancel controls
+ */
+export function throttle<T extends unknown[]>(
+  fn: (...args: T) => void,
+  wait: number
+): Throttled<T> {
+  let lastCall = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pendingArgs: T | null = null;
+
+  const invoke = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pendingArgs) return;
+
+    const args = pendingArgs;
+    pendingArgs = null;
+    lastCall = Date.now();
+    fn(...args);
+  };
+
+  const throttled = ((...args: T) => {
+    pendingArgs = args;
+    const remaining = wait - (Date.now() - lastCall);
+
+    if (remaining <= 0) {
+      invoke();
+    } else if (!timer) {
+      timer = setTimeout(invoke, remaining);
+    }
+  }) as Throttled<T>;
+
+  throttled.flush = invoke;
+  throttled.cancel = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pendingArgs = null;
+  };
+
+  return throttled;
+}
@@ -0,0 +1,40 @@
+/**
+ * Metadata filter for MongoDB `$vectorSearch`
+ * Free of Vite and browser APIs so backend/ingest can check the documents it writes against it
+ */
+
+import { NelsonEdition } from '@/types';
+
+export interface VectorSearchFilterOptions {
+  medicalSpecialty?: string;
+  minConfidenceScore?: number;
+  ageGroups?: string[];
+  edition?: NelsonEdition;
+}
+
+/**
+ * Build the `filter` of a `$vectorSearch` stage; empty when nothing is filtered
+ * @param options - Metadata the documents must match
+ */
+export function buildVectorSearchFilter(options: VectorSearchFilterOptions): Record<string, unknown> {
+  const { medicalSpecialty, minConfidenceScore, ageGroups, edition } = options;
+  const filters: Record<string, unknown> = {};
+
+  if (medicalSpecialty) {
+    filters.medical_specialty = medicalSpecialty;
+  }
+
+  if (minConfidenceScore) {
+    filters.confidence_score = { $gte: minConfidenceScore };
+  }
+
+  if (ageGroups && ageGroups.length > 0) {
+    filters.age_groups = { $in: ageGroups };
+  }
+
+  if (edition) {
+    filters.edition = edition;
+  }
+
+  return filters;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { EmbeddingResult, NelsonEdition } from '@/types';
+import { extractCitations } from './mistral';
+import { parseCitations } from './markdown';
+import { verifyCitations } from './verification';
+
+const source = (chapter: string, edition?: NelsonEdition): EmbeddingResult => ({
+  embedding: [],
+  text: 'Retrieved passage',
+  metadata: { chapter, edition, page: 1186, section: 'Management', title: 'Asthma' },
+});
+
+const answer = [
+  'Inhaled corticosteroids are first line [Nelson Ch. 185].',
+  'Spacers improve delivery [Nelson 22e Ch. 185:1186-1187].',
+  'Montelukast is an alternative [Nelson Ch. 190 - Allergic Rhinitis].',
+  'Check growth [Nelson 21e Ch. 27:150].',
+].join(' ');
+
+describe('citation parsing', () => {
+  it('finds the same markers for rendering and for verification', () => {
+    const rendered = parseCitations(answer).map(citation => [citation.chapter.replace(/\D+/g, ''), citation.edition]);
+    const extracted = extractCitations(answer).map(citation => [citation.chapter, citation.edition]);
+
+    expect(extracted).toEqual([['185', undefined], ['185', 22], ['190', undefined], ['27', 21]]);
+    expect(rendered).toEqual(extracted);
+  });
+
+  it('reads pages and titles', () => {
+    expect(extractCitations('[Nelson 22e Ch. 185:1186-1187 - Asthma]')).toEqual([
+      { text: '[Nelson 22e Ch. 185:1186-1187 - Asthma]', chapter: '185', edition: 22, pageRange: '1186-1187', title: 'Asthma' },
+    ]);
+  });
+});
+
+describe('verifyCitations', () => {
+  it('flags unsupported citations written with pages or titles', () => {
+    const verification = verifyCitations(answer, [source('Chapter 185', 22)]);
+
+    expect(verification.supportedChapters).toEqual(['185', '22/185']);
+    expect(verification.unsupportedChapters).toEqual(['190', '21/27']);
+    expect(verification.groundingScore).toBe(0.5);
+  });
+
+  it('grounds a passage-only answer citing pages', () => {
+    const passages = '**Asthma — Management** [Nelson 22e Ch. 185:1186]\n\n> Inhaled corticosteroids...';
+
+    expect(verifyCitations(passages, [source('185', 22)]).groundingScore).toBe(1);
+  });
+
+  it('requires a cited edition to match the retrieved one', () => {
+    expect(verifyCitations('[Nelson 21e Ch. 185:1200]', [source('185', 22)]).unsupportedChapters).toEqual(['21/185']);
+  });
+});
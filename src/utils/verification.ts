@@ -0,0 +1,60 @@
+/**
+ * Citation verification for generated answers
+ * Cross-references the chapters a model cites against the chunks it was given
+ */
+
+import { citationTarget, findCitationMarkers } from './markdown';
+import { CitationVerification, EmbeddingResult } from '../types';
+
+/**
+ * Normalize chapter labels ("Chapter 45", "45", "Ch. 45") to the chapter number
+ */
+export function normalizeChapter(chapter: string | number | undefined | null): string {
+  const value = String(chapter ?? '').trim();
+  const digits = value.match(/\d+/);
+  return digits ? digits[0] : value.toLowerCase();
+}
+
+/**
+ * Verify that every chapter cited in a response was among the retrieved sources.
+ * A citation naming an edition must match that edition; one without matches any.
+ * @param response - Generated answer text
+ * @param sources - Chunks retrieved for the answer
+ * @param citationsExpected - Whether the model was asked to cite sources
+ * @returns Supported/unsupported chapters (keyed like citation links, e.g. "185" or "22/185") and a 0-1 grounding score
+ */
+export function verifyCitations(
+  response: string,
+  sources: EmbeddingResult[],
+  citationsExpected: boolean = true
+): CitationVerification {
+  const retrievedChapters = new Set(
+    sources.flatMap(source => {
+      const chapter = normalizeChapter(source.metadata?.chapter);
+      const edition = source.metadata?.edition;
+      return edition ? [chapter, citationTarget(edition, chapter)] : [chapter];
+    })
+  );
+  const citedChapters = Array.from(
+    new Set(findCitationMarkers(response).map(citation => citationTarget(citation.edition, normalizeChapter(citation.chapter))))
+  );
+
+  const supportedChapters = citedChapters.filter(chapter => retrievedChapters.has(chapter));
+  const unsupportedChapters = citedChapters.filter(chapter => !retrievedChapters.has(chapter));
+
+  let groundingScore: number;
+  if (citedChapters.length > 0) {
+    groundingScore = supportedChapters.length / citedChapters.length;
+  } else if (!citationsExpected && sources.length > 0) {
+    // Nothing to check: fall back to how well the retrieved context matched
+    groundingScore = sources.reduce((sum, source) => sum + (source.similarity ?? 0), 0) / sources.length;
+  } else {
+    groundingScore = 0;
+  }
+
+  return {
+    supportedChapters,
+    unsupportedChapters,
+    groundingScore: Math.round(groundingScore * 100) / 100
+  };
+}
@@ -1,14 +1,27 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
+    readonly VITE_API_MODE: string
+    readonly VITE_API_BASE_URL: string
     readonly VITE_MONGODB_DATA_API_URL: string
     readonly VITE_MONGODB_API_KEY: string
     readonly VITE_MONGODB_CLUSTER: string
     readonly VITE_MONGODB_DATABASE: string
     readonly VITE_HF_API_KEY: string
     readonly VITE_HF_EMBEDDING_MODEL: string
+    readonly VITE_EMBEDDING_PROVIDER: string
+    readonly VITE_LOCAL_EMBEDDING_MODEL: string
+    readonly VITE_LOCAL_MODEL_HOST: string
+    readonly VITE_OFFLINE_PACK_URL: string
+    readonly VITE_RERANKER: string
+    readonly VITE_HF_RERANKER_MODEL: string
+    readonly VITE_LOCAL_RERANKER_MODEL: string
     readonly VITE_MISTRAL_API_KEY: string
     readonly VITE_MISTRAL_MODEL: string
+    readonly VITE_LLM_PROVIDER: string
+    readonly VITE_LLM_BASE_URL: string
+    readonly VITE_LLM_API_KEY: string
+    readonly VITE_LLM_MODEL: string
     readonly VITE_SUPABASE_URL: string
     readonly VITE_SUPABASE_ANON_KEY: string
   }
@@ -0,0 +1,97 @@
+/**
+ * Web Worker that runs the sentence embedding and reranker models on-device with ONNX
+ * Produces the same mean-pooled, normalized 384-dim vectors as the
+ * Hugging Face feature-extraction API for all-MiniLM-L6-v2
+ */
+
+import { AutoModelForSequenceClassification, AutoTokenizer, env, pipeline } from '@xenova/transformers';
+
+const LOCAL_EMBEDDING_MODEL = import.meta.env.VITE_LOCAL_EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2';
+const LOCAL_RERANKER_MODEL = import.meta.env.VITE_LOCAL_RERANKER_MODEL || 'Xenova/ms-marco-MiniLM-L-6-v2';
+const LOCAL_MODEL_HOST = import.meta.env.VITE_LOCAL_MODEL_HOST;
+
+// Models are fetched over HTTP (and cached by the browser), never from the filesystem
+env.allowLocalModels = false;
+if (LOCAL_MODEL_HOST) {
+  env.remoteHost = LOCAL_MODEL_HOST;
+}
+
+export type EmbeddingWorkerRequest =
+  | { id: number; task: 'embed'; texts: string[] }
+  | { id: number; task: 'rerank'; query: string; texts: string[] };
+
+export type EmbeddingWorkerResponse =
+  | { id: number; embeddings: number[][] }
+  | { id: number; scores: number[] }
+  | { id: number; error: string };
+
+type Extractor = (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist: () => number[][] }>;
+
+type CrossEncoder = (query: string, texts: string[]) => Promise<number[]>;
+
+let extractorPromise: Promise<Extractor> | null = null;
+let crossEncoderPromise: Promise<CrossEncoder> | null = null;
+
+function getExtractor(): Promise<Extractor> {
+  if (!extractorPromise) {
+    extractorPromise = pipeline('feature-extraction', LOCAL_EMBEDDING_MODEL) as unknown as Promise<Extractor>;
+    // Allow a retry if the model failed to download
+    extractorPromise.catch(() => {
+      extractorPromise = null;
+    });
+  }
+  return extractorPromise;
+}
+
+async function loadCrossEncoder(): Promise<CrossEncoder> {
+  const [tokenizer, model] = await Promise.all([
+    AutoTokenizer.from_pretrained(LOCAL_RERANKER_MODEL),
+    AutoModelForSequenceClassification.from_pretrained(LOCAL_RERANKER_MODEL),
+  ]);
+
+  const tokenize = tokenizer as unknown as (
+    text: string[],
+    options: { text_pair: string[]; padding: boolean; truncation: boolean }
+  ) => Record<string, unknown>;
+  const classify = model as unknown as (inputs: Record<string, unknown>) => Promise<{ logits: { data: ArrayLike<number> } }>;
+
+  return async (query, texts) => {
+    const inputs = tokenize(texts.map(() => query), { text_pair: texts, padding: true, truncation: true });
+    const { logits } = await classify(inputs);
+    // One relevance logit per (query, passage) pair, squashed to 0-1
+    return Array.from(logits.data, logit => 1 / (1 + Math.exp(-logit)));
+  };
+}
+
+function getCrossEncoder(): Promise<CrossEncoder> {
+  if (!crossEncoderPromise) {
+    crossEncoderPromise = loadCrossEncoder();
+    crossEncoderPromise.catch(() => {
+      crossEncoderPromise = null;
+    });
+  }
+  return crossEncoderPromise;
+}
+
+self.onmessage = async (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    let response: EmbeddingWorkerResponse;
+    if (request.task === 'rerank') {
+      const crossEncoder = await getCrossEncoder();
+      response = { id: request.id, scores: await crossEncoder(request.query, request.texts) };
+    } else {
+      const extractor = await getExtractor();
+      const output = await extractor(request.texts, { pooling: 'mean', normalize: true });
+      response = { id: request.id, embeddings: output.tolist() };
+    }
+    self.postMessage(response);
+  } catch (error) {
+    const response: EmbeddingWorkerResponse = {
+      id: request.id,
+      error: error instanceof Error ? error.message : `Local ${request.task} failed`
+    };
+    self.postMessage(response);
+  }
+};
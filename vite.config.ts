@@ -1,3 +1,5 @@
+/// <reference types="vitest" />
+import { fileURLToPath, URL } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
@@ -34,6 +36,8 @@ export default defineConfig({
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+        // Background Sync handler for questions asked offline
+        importScripts: ['sw-sync.js'],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/[a-z0-9.-]+\.supabase\.co\/.*$/i,
@@ -48,14 +52,44 @@ export default defineConfig({
                 statuses: [0, 200]
               }
             }
+          },
+          {
+            // ONNX runtime used by the on-device model, needed to search offline packs
+            urlPattern: /^https:\/\/cdn\.jsdelivr\.net\/npm\/@xenova\/transformers@.*\.wasm$/i,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'onnx-runtime-cache',
+              expiration: {
+                maxEntries: 10,
+                maxAgeSeconds: 60 * 60 * 24 * 365
+              },
+              cacheableResponse: {
+                statuses: [0, 200]
+              }
+            }
           }
         ]
       }
     })
   ],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
+  // transformers.js runs in the embedding worker and relies on code splitting
+  worker: {
+    format: 'es'
+  },
+  optimizeDeps: {
+    exclude: ['@xenova/transformers']
+  },
   server: {
     port: 3000,
     host: true
+  },
+  test: {
+    include: ['src/**/*.test.ts']
   }
 })
 